@@ -16,7 +16,11 @@ export default defineConfig({
     retries: 0, 
     reporter: [
       ['list'], // Standard list reporter
-      ['html', { outputFolder: 'playwright-report', open: 'never' }]
+      ['html', { outputFolder: 'playwright-report', open: 'never' }],
+      // Cross-site brand consistency of the data-casino collector dumps; must run before the audit summary
+      ['./tests/e2e/reporters/brandConsistencyReporter.ts'],
+      // Cross-project soft-failure summary (audit-summary/run-summary.json + index.html)
+      ['./tests/e2e/reporters/auditSummaryReporter.ts', { outputFolder: 'audit-summary' }]
     ],
 
     use: {
@@ -0,0 +1,155 @@
+// tests/e2e/config/brands.ts
+// Typed brand registry: maps CTA data attributes and affiliate slugs to a canonical brand and the
+// operator domains its redirect is expected to land on. Used by the CTA redirect audit.
+
+import type { SiteName } from './sites';
+
+export type Brand = {
+    /** Canonical brand id (kebab-case) */
+    id: string;
+    /** Display name */
+    name: string;
+    /** Alternative spellings, matched against affiliate slugs and data-casino values (kebab-case) */
+    aliases: string[];
+    /** Exact data-casino / data-casino-name values that differ from the name and aliases */
+    dataCasinoValues?: string[];
+    /** Affiliate slugs (last segment of the tracking link) per site, when they do not contain an alias */
+    affiliateSlugs?: Partial<Record<SiteName, string[]>>;
+    /**
+     * Registrable domains of the operator landing (subdomains included). Landing hosts missing here still
+     * pass when one of their DNS labels is the brand name or an alias (see isBrandAliasUrl), with a warning to add them.
+     */
+    operatorDomains: string[];
+    /** Redirect is consistently fast; audited with the short redirect timeout */
+    fastRedirect?: boolean;
+};
+
+export const brands: Brand[] = [
+    { id: 'superbet', name: 'Superbet', aliases: ['superbet'], operatorDomains: ['superbet.ro'], fastRedirect: true },
+    { id: 'betano', name: 'Betano', aliases: ['betano'], operatorDomains: ['betano.ro'] },
+    { id: 'fortuna', name: 'Fortuna', aliases: ['fortuna', 'efortuna'], operatorDomains: ['efortuna.ro'], fastRedirect: true },
+    { id: 'fortuna-palace', name: 'Fortuna Palace', aliases: ['fortunapalace', 'fortuna-palace'], operatorDomains: ['fortunapalace.ro'] },
+    { id: 'netbet', name: 'NetBet', aliases: ['netbet'], operatorDomains: ['netbet.ro'], fastRedirect: true },
+    { id: 'unibet', name: 'Unibet', aliases: ['unibet'], operatorDomains: ['unibet.ro'] },
+    { id: 'winmasters', name: 'Winmasters', aliases: ['winmasters'], operatorDomains: ['winmasters.ro'], fastRedirect: true },
+    { id: 'win2', name: 'Win2', aliases: ['win2'], operatorDomains: ['win2.ro'], fastRedirect: true },
+    { id: 'winner', name: 'Winner', aliases: ['winner'], operatorDomains: ['winner.ro'], fastRedirect: true },
+    { id: 'winbet', name: 'Winbet', aliases: ['winbet'], operatorDomains: ['winbet.ro'] },
+    { id: 'winboss', name: 'WinBoss', aliases: ['winboss'], operatorDomains: ['winboss.ro'] },
+    { id: 'napoleon', name: 'Napoleon', aliases: ['napoleon'], operatorDomains: ['napoleoncasino.ro', 'napoleongames.ro'], fastRedirect: true },
+    { id: 'pokerstars', name: 'PokerStars', aliases: ['pokerstars', 'poker-stars'], operatorDomains: ['pokerstars.ro'], fastRedirect: true },
+    { id: '12xbet', name: '12xBet', aliases: ['12xbet'], operatorDomains: ['12xbet.ro'], fastRedirect: true },
+    { id: 'bilion', name: 'Bilion', aliases: ['bilion'], operatorDomains: ['bilion.ro'], fastRedirect: true },
+    { id: 'mr-bit', name: 'Mr Bit', aliases: ['mrbit', 'mr-bit'], operatorDomains: ['mrbit.ro'] },
+    { id: 'mr-play', name: 'Mr Play', aliases: ['mrplay', 'mr-play'], operatorDomains: ['mrplay.ro'] },
+    { id: 'maxbet', name: 'MaxBet', aliases: ['maxbet'], operatorDomains: ['maxbet.ro'] },
+    { id: 'maxwin', name: 'MaxWin', aliases: ['maxwin'], operatorDomains: ['maxwin.ro'] },
+    { id: 'stanleybet', name: 'Stanleybet', aliases: ['stanleybet'], operatorDomains: ['stanleybet.ro'] },
+    { id: 'vlad-cazino', name: 'Vlad Cazino', aliases: ['vlad-cazino', 'vladcazino', 'vlad'], operatorDomains: ['vladcazino.ro'] },
+    { id: 'princess', name: 'Princess Casino', aliases: ['princess'], operatorDomains: ['princesscasino.ro'] },
+    { id: 'conti-cazino', name: 'Conti Cazino', aliases: ['conti-cazino', 'conticazino', 'conti'], operatorDomains: ['conticazino.ro'] },
+    { id: 'las-vegas', name: 'Las Vegas', aliases: ['lasvegas', 'las-vegas'], operatorDomains: ['lasvegas.ro'] },
+    { id: 'mozzartbet', name: 'MozzartBet', aliases: ['mozzartbet', 'mozzart'], operatorDomains: ['mozzartbet.ro'] },
+    { id: 'admiralbet', name: 'AdmiralBet', aliases: ['admiralbet', 'admiral'], operatorDomains: ['admiralbet.ro'] },
+    { id: 'betfair', name: 'Betfair', aliases: ['betfair'], operatorDomains: ['betfair.ro'] },
+    { id: '888', name: '888 Casino', aliases: ['888', '888casino'], operatorDomains: ['888casino.ro', '888.ro'] },
+    { id: 'cashpot', name: 'Cashpot', aliases: ['cashpot'], operatorDomains: ['cashpot.ro'] },
+    { id: 'getsbet', name: 'GetsBet', aliases: ['getsbet'], operatorDomains: ['getsbet.ro'] },
+    { id: 'excelbet', name: 'Excelbet', aliases: ['excelbet'], operatorDomains: ['excelbet.ro'] },
+    { id: 'publicwin', name: 'PublicWin', aliases: ['publicwin'], operatorDomains: ['publicwin.ro'] },
+    { id: '32rosu', name: '32Roșu', aliases: ['32rosu'], operatorDomains: ['32rosu.ro'] },
+    { id: 'powerbet', name: 'Powerbet', aliases: ['powerbet'], operatorDomains: ['powerbet.ro'] },
+    { id: 'elite-slots', name: 'Elite Slots', aliases: ['eliteslots', 'elite-slots'], operatorDomains: ['eliteslots.ro'] },
+    { id: 'magnumbet', name: 'MagnumBet', aliases: ['magnumbet'], operatorDomains: ['magnumbet.ro'] },
+    { id: 'hotspins', name: 'HotSpins', aliases: ['hotspins', 'hot-spins'], operatorDomains: ['hotspins.ro'] },
+    { id: 'favbet', name: 'Favbet', aliases: ['favbet'], operatorDomains: ['favbet.ro'] },
+    { id: 'totogaming', name: 'TotoGaming', aliases: ['totogaming'], operatorDomains: ['totogaming.ro'] },
+    { id: 'pariuriplus', name: 'PariuriPlus', aliases: ['pariuriplus'], operatorDomains: ['pariuriplus.ro'] },
+    { id: 'casa-pariurilor', name: 'Casa Pariurilor', aliases: ['casapariurilor', 'casa-pariurilor'], operatorDomains: ['casapariurilor.ro'] },
+    { id: 'lucky-seven', name: 'Lucky Seven', aliases: ['luckyseven', 'lucky-seven'], operatorDomains: ['luckyseven.ro'] },
+    { id: 'royal-slots', name: 'Royal Slots', aliases: ['royalslots', 'royal-slots'], operatorDomains: ['royalslots.ro'] },
+    { id: 'slotv', name: 'SlotV', aliases: ['slotv'], operatorDomains: ['slotv.ro'] },
+    { id: 'frank-casino', name: 'Frank Casino', aliases: ['frank'], operatorDomains: ['frankcasino.ro'] },
+    { id: 'million', name: 'Million', aliases: ['million'], operatorDomains: ['million.ro'] },
+    { id: 'prowin', name: 'Prowin', aliases: ['prowin'], operatorDomains: ['prowin.ro'] },
+    { id: 'bet7', name: 'Bet7', aliases: ['bet7'], operatorDomains: ['bet7.ro'] },
+    { id: 'playgg', name: 'PlayGG', aliases: ['playgg'], operatorDomains: ['playgg.ro'] },
+];
+
+const stripDiacritics = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Lowercase, diacritic-free kebab form used for every comparison ("Vlad Cazino" -> "vlad-cazino"). */
+export function toBrandKey(value: string): string {
+    return stripDiacritics(value.toLowerCase()).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function lastPathSegment(href: string): string {
+    let pathname = href;
+    try {
+        pathname = new URL(href, 'https://placeholder.invalid').pathname;
+    } catch {}
+    const segments = pathname.split('/').filter(Boolean);
+    return segments.length > 0 ? segments[segments.length - 1] : '';
+}
+
+/** Brand whose name, alias or data-casino value equals the attribute value. */
+export function findBrandByDataCasino(value?: string | null): Brand | null {
+    if (!value) return null;
+    const key = toBrandKey(value);
+    if (!key) return null;
+    return brands.find((brand) =>
+        [brand.name, ...brand.aliases, ...(brand.dataCasinoValues ?? [])].some((candidate) => toBrandKey(candidate) === key)
+    ) ?? null;
+}
+
+/**
+ * Brand for an affiliate link: an explicit per-site slug first, then the longest alias contained
+ * in the slug as whole tokens ("mozzartbet-bonus" matches 'mozzartbet', not 'mozzart').
+ */
+export function findBrandBySlug(site: SiteName, href?: string | null): Brand | null {
+    if (!href) return null;
+    const slug = toBrandKey(lastPathSegment(href));
+    if (!slug) return null;
+
+    const explicit = brands.find((brand) => brand.affiliateSlugs?.[site]?.some((candidate) => toBrandKey(candidate) === slug));
+    if (explicit) return explicit;
+
+    const paddedSlug = `-${slug}-`;
+    let best: { brand: Brand; length: number } | null = null;
+    for (const brand of brands) {
+        for (const alias of brand.aliases) {
+            const key = toBrandKey(alias);
+            if (key && paddedSlug.includes(`-${key}-`) && (!best || key.length > best.length)) {
+                best = { brand, length: key.length };
+            }
+        }
+    }
+    return best?.brand ?? null;
+}
+
+/** True when the URL's host is one of the brand's operator domains or a subdomain of one. */
+export function isOperatorUrl(brand: Brand, url: string): boolean {
+    let host: string;
+    try {
+        host = new URL(url).hostname.toLowerCase();
+    } catch {
+        return false;
+    }
+    return brand.operatorDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Fallback for operator domains not (or wrongly) listed in the registry: true when one DNS label of the URL's host,
+ * TLD excluded, equals the brand name or one of its aliases ("casino.mrbit.com" for 'mrbit'; not "fortunapalace.ro"
+ * for 'fortuna'). Dashes are ignored on both sides, so "vlad-cazino" and "vladcazino" both match 'Vlad Cazino'.
+ */
+export function isBrandAliasUrl(brand: Brand, url: string): boolean {
+    let labels: string[];
+    try {
+        labels = new URL(url).hostname.toLowerCase().split('.').slice(0, -1).map((label) => label.replace(/-/g, ''));
+    } catch {
+        return false;
+    }
+    const keys = [brand.name, ...brand.aliases].map((candidate) => toBrandKey(candidate).replace(/-/g, '')).filter(Boolean);
+    return labels.some((label) => keys.includes(label));
+}
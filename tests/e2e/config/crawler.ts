@@ -1,155 +1,677 @@
-// tests/e2e/config/crawler.ts - Reworked for Recursive Sitemap Discovery
+// tests/e2e/config/crawler.ts - Sitemap-based URL selection (parsing lives in ./sitemap.ts)
 
 import { Page } from '@playwright/test';
 import { SiteConfig } from './sites'; 
 import { URL } from 'url';
-import { default as fetch } from 'node-fetch'; 
+import * as fs from 'fs';
+import path from 'path';
+import { collectSitemapEntries, type SitemapIssue } from './sitemap';
+
+/**
+ * How crawlSite picks up to maxPages URLs from the eligible sitemap entries:
+ * - 'recent': pages modified since the previous crawl first, then newest <lastmod> first
+ * - 'priority': weighted random sample by <priority> x <changefreq>
+ * - 'random': seeded shuffle
+ * - 'full': every eligible URL (maxPages is ignored)
+ * - 'rotating': next batch of URLs not yet audited in the current coverage cycle (recent first), see recordCrawlCoverage
+ */
+export type CrawlStrategy = 'recent' | 'priority' | 'random' | 'full' | 'rotating';
+
+export const CRAWL_STRATEGIES: readonly CrawlStrategy[] = ['recent', 'priority', 'random', 'full', 'rotating'];
+
+/**
+ * Where crawlSite gets its candidate URLs from:
+ * - 'sitemap': robots.txt / sitemap.xml entries (default)
+ * - 'links': breadth-first walk of internal links starting at config.startPaths
+ */
+export type DiscoveryMode = 'sitemap' | 'links';
+
+const DISCOVERY_MODES: readonly DiscoveryMode[] = ['sitemap', 'links'];
+const DEFAULT_LINK_DEPTH = 3;
+
+export type LinkGraphOptions = {
+    /** Max link depth from the start paths (defaults to config.maxLinkDepth, then 3) */
+    maxDepth?: number;
+    /** Max pages visited (defaults to config.maxPages) */
+    maxPages?: number;
+};
+
+export type LinkGraphResult = {
+    /** Pages actually loaded during the walk, in BFS order */
+    visitedPaths: string[];
+    /** Every eligible internal path linked from a visited page (plus the start paths) */
+    linkedPaths: string[];
+    /** Number of internal link edges seen */
+    edgeCount: number;
+    depthReached: number;
+    /** Pages that failed to load */
+    failedPaths: string[];
+    /**
+     * True when the walk is partial: the page budget ran out before the queue was empty, links beyond
+     * the depth limit were not followed, or pages failed to load. Orphan checks are only conclusive when false.
+     */
+    truncated: boolean;
+    /** Linked pages not visited because they sit beyond the depth limit (their own links are unknown) */
+    depthLimitedCount: number;
+    /** Internal links to excluded/non-included paths, which are not followed (pages only linked from there look orphaned) */
+    ineligibleLinkCount: number;
+};
+
+export type CrawlOptions = {
+    /** Site key used for the persisted crawl state (last run timestamp). */
+    siteName?: string;
+    /**
+     * Suite key (e.g. failureReporter.suite) added to the persisted state, so suites crawling the same
+     * site (desktop and mobile crawl audits) keep separate state.
+     */
+    suite?: string;
+    /** Overrides config.crawlStrategy (and the CRAWL_STRATEGY env variable). */
+    strategy?: CrawlStrategy;
+    /** Seed for the random/priority strategies. Defaults to CRAWL_SEED, config.crawlSeed or a fresh random seed. */
+    seed?: number;
+    /**
+     * Replays a persisted selection instead of sampling the sitemap: 'latest' or a path to a selection file.
+     * Defaults to the CRAWL_REPLAY env variable. Needs a siteName; a selection file of another site skips the crawl.
+     */
+    replay?: string;
+    /** Overrides config.discoveryMode (and the CRAWL_DISCOVERY env variable). */
+    discovery?: DiscoveryMode;
+};
+
+/** Persisted per run in crawl-state/selections/, so a failing crawl can be replayed with the same pages and order. */
+export type CrawlSelection = {
+    site: string;
+    /** Suite that made the selection (CrawlOptions.suite) */
+    suite?: string;
+    createdAt: string;
+    strategy: CrawlStrategy;
+    seed: number;
+    urls: string[];
+};
+
+/**
+ * Per-site (and per-suite) ledger for the 'rotating' strategy: every eligible URL is audited exactly once per cycle.
+ */
+type CoverageLedger = {
+    site: string;
+    /** Suite owning the ledger (CrawlOptions.suite), so desktop and mobile audits each cover every URL */
+    suite?: string;
+    cycle: number;
+    cycleStartedAt: string;
+    updatedAt: string;
+    /** Eligible sitemap paths as of the latest crawl */
+    eligible: string[];
+    /** Paths audited in the current cycle */
+    audited: string[];
+};
+
+export type CrawlCoverage = {
+    cycle: number;
+    auditedCount: number;
+    eligibleCount: number;
+    /** 0-100, rounded to one decimal */
+    percent: number;
+};
 
 type CrawlResult = {
     discoveredUrls: string[];
+    /** Selection time; pass to recordCrawlRun once the audit of these pages has finished. */
+    startedAt: string;
     skippedUrls: string[];
+    discovery: DiscoveryMode;
+    strategy: CrawlStrategy;
+    seed: number;
+    /** Where the selection was persisted (or read from, when replaying). Null without a siteName. */
+    selectionFile: string | null;
+    replayed: boolean;
+    /**
+     * Set when CRAWL_REPLAY points at a selection of another site: discoveredUrls is empty and callers
+     * should skip the project (test.skip) instead of failing, so a single-site replay can run all projects.
+     */
+    replaySkipReason?: string;
+    /** Coverage of the current cycle before this run's pages are audited ('rotating' strategy only). */
+    coverage?: CrawlCoverage;
+    /** Sitemap files requested during discovery (empty when replaying) */
+    sitemapUrls: string[];
+    /** Unreachable, malformed or empty sitemaps; callers report these as audit failures. */
+    sitemapIssues: SitemapIssue[];
+};
+
+type EligibleEntry = {
+    path: string;
+    lastmod?: number;
+    changefreq?: string;
+    priority: number;
 };
 
+const CRAWL_STATE_DIR = path.join(process.cwd(), 'crawl-state');
+const SELECTIONS_DIR = path.join(CRAWL_STATE_DIR, 'selections');
 /**
- * Parses XML content (like a sitemap) to extract URLs from <loc> tags.
- * @param xmlString - The XML content from the sitemap.
- * @returns Array of clean paths (relative or full URLs).
+ * Behaviour change: before the strategies existed every crawl was a plain random shuffle. 'rotating' makes
+ * repeated runs cover the whole sitemap; CRAWL_STRATEGY=random (or config.crawlStrategy) restores the old sampling.
  */
-function extractUrlsFromXml(xmlString: string): string[] {
-    const urlSet = new Set<string>();
-    // Regex to find <loc>...</loc> content
-    const locRegex = /<loc>(.*?)<\/loc>/gi;
-    let match;
+const DEFAULT_STRATEGY: CrawlStrategy = 'rotating';
+const DEFAULT_PRIORITY = 0.5;
 
-    while ((match = locRegex.exec(xmlString)) !== null) {
-        urlSet.add(match[1].trim());
+/** Multiplier applied to <priority> in the 'priority' strategy: frequently changing pages are audited more often. */
+const CHANGEFREQ_WEIGHTS: Record<string, number> = {
+    always: 1.5,
+    hourly: 1.4,
+    daily: 1.3,
+    weekly: 1,
+    monthly: 0.8,
+    yearly: 0.6,
+    never: 0.3,
+};
+
+/**
+ * Normalizes an absolute URL to the relative path format used by the crawler (no trailing slash, no query).
+ * @returns null for malformed URLs.
+ */
+export function toCrawlPath(fullUrl: string): string | null {
+    try {
+        const urlObj = new URL(fullUrl);
+        let pathname = urlObj.pathname.replace(/\/$/, '');
+        if (pathname === '') pathname = '/';
+        return pathname.split('?')[0];
+    } catch {
+        return null;
     }
-    return Array.from(urlSet);
 }
 
+/** Include/exclude pattern check shared by sitemap and link discovery. */
+export function isEligiblePath(path: string, config: SiteConfig): boolean {
+    // Check 1: Exclude Patterns
+    if (config.excludePatterns.some(pattern => pattern.test(path))) return false;
+    // Check 2: Include Patterns (MUST match at least one)
+    return config.includePatterns.some(pattern => pattern.test(path));
+}
+
+const hostKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
 /**
- * Recursively fetches sitemaps and extracts all final content URLs.
- * @param url The current sitemap URL to fetch.
- * @param baseURL The base URL of the project.
- * @param visitedSitemaps Set to prevent endless loops.
- * @returns Array of final, normalized relative content paths.
+ * Link-graph discovery: breadth-first walk of internal <a href> links from config.startPaths,
+ * honouring include/exclude patterns, a depth limit and the page budget.
  */
-async function fetchAndFilterSitemapUrls(
-    url: string,
+export async function discoverByLinks(
+    page: Page,
     baseURL: string,
-    visitedSitemaps: Set<string>
-): Promise<string[]> {
-    if (visitedSitemaps.has(url)) {
-        return [];
-    }
-    visitedSitemaps.add(url);
-    
-    let contentUrls: string[] = [];
+    config: SiteConfig,
+    options: LinkGraphOptions = {},
+): Promise<LinkGraphResult> {
+    const maxDepth = options.maxDepth ?? config.maxLinkDepth ?? DEFAULT_LINK_DEPTH;
+    const maxPages = options.maxPages ?? config.maxPages;
+    const siteHost = hostKey(new URL(baseURL).hostname);
 
-    try {
-        const response = await fetch(url, {
-            headers: { 'User-Agent': 'Playwright Crawler Bot' } 
-        });
+    const result: LinkGraphResult = { visitedPaths: [], linkedPaths: [], edgeCount: 0, depthReached: 0, failedPaths: [], truncated: false, depthLimitedCount: 0, ineligibleLinkCount: 0 };
+    const linked = new Set<string>();
+    const queue: { path: string; depth: number }[] = [];
 
-        if (!response.ok) {
-            console.error(`[CRAWLER] Failed to fetch sitemap ${url}: ${response.status}`);
-            return [];
+    for (const startPath of config.startPaths) {
+        const path = toCrawlPath(new URL(startPath, baseURL).toString());
+        if (path && !linked.has(path)) {
+            linked.add(path);
+            queue.push({ path, depth: 0 });
         }
+    }
+
+    console.log(`[CRAWLER] Link-graph discovery from ${config.startPaths.join(', ')} (depth ≤ ${maxDepth}, pages ≤ ${maxPages})`);
 
-        const xmlText = await response.text();
-        const urlsInXml = extractUrlsFromXml(xmlText);
+    while (queue.length > 0 && result.visitedPaths.length < maxPages) {
+        const { path, depth } = queue.shift()!;
+        result.visitedPaths.push(path);
+        result.depthReached = Math.max(result.depthReached, depth);
 
-        if (urlsInXml.length === 0) {
-            return [];
+        let hrefs: string[] = [];
+        try {
+            await page.goto(baseURL + path, { waitUntil: 'domcontentloaded', timeout: 30_000 });
+            hrefs = await page.locator('a[href]').evaluateAll((nodes) => nodes.map((n) => (n as HTMLAnchorElement).href));
+        } catch (error) {
+            console.warn(`[CRAWLER] Link-graph: failed to load ${path}: ${(error as Error).message}`);
+            result.failedPaths.push(path);
+            continue;
         }
 
-        // Check if the current file is a SITEMAP INDEX (contains links to other .xml files)
-        if (urlsInXml[0].toLowerCase().endsWith('.xml')) {
-            console.log(`[CRAWLER] Found Sitemap Index at ${url}. Fetching sub-sitemaps...`);
-            
-            // Recursively fetch all sub-sitemaps
-            for (const subSitemapUrl of urlsInXml) {
-                if (subSitemapUrl.startsWith(baseURL)) {
-                    const subUrls = await fetchAndFilterSitemapUrls(subSitemapUrl, baseURL, visitedSitemaps);
-                    contentUrls.push(...subUrls);
-                }
+        for (const href of hrefs) {
+            let url: URL;
+            try {
+                url = new URL(href);
+            } catch {
+                continue;
+            }
+            if (!/^https?:$/.test(url.protocol) || hostKey(url.hostname) !== siteHost) continue;
+
+            const linkedPath = toCrawlPath(url.toString());
+            if (!linkedPath) continue;
+            if (!isEligiblePath(linkedPath, config)) {
+                result.ineligibleLinkCount++;
+                continue;
+            }
+
+            result.edgeCount++;
+            if (linked.has(linkedPath)) continue;
+            linked.add(linkedPath);
+            if (depth + 1 <= maxDepth) {
+                queue.push({ path: linkedPath, depth: depth + 1 });
+            } else {
+                result.depthLimitedCount++;
             }
-        } else {
-            // This XML contains final content URLs (does not link to other .xml files)
-            contentUrls = urlsInXml;
         }
+    }
 
-    } catch (error) {
-        console.error(`[CRAWLER] Error processing ${url}: ${error}`);
+    result.linkedPaths = Array.from(linked);
+    result.truncated = queue.length > 0 || result.depthLimitedCount > 0 || result.failedPaths.length > 0;
+    console.log(`[CRAWLER] Link-graph: visited ${result.visitedPaths.length} page(s), found ${result.linkedPaths.length} linked path(s), depth ${result.depthReached}, ${result.depthLimitedCount} beyond the depth limit.`);
+    return result;
+}
+
+export type DiscoveryComparison = {
+    /** In the sitemap, but not linked from any visited page */
+    orphanPaths: string[];
+    /** Linked internally, but absent from the sitemap */
+    unlistedPaths: string[];
+    /** Present in both */
+    sharedCount: number;
+};
+
+/**
+ * Compares sitemap paths against link-graph paths (both in toCrawlPath format).
+ */
+export function compareDiscovery(sitemapPaths: Iterable<string>, linkedPaths: Iterable<string>): DiscoveryComparison {
+    const sitemapSet = new Set(sitemapPaths);
+    const linkedSet = new Set(linkedPaths);
+    return {
+        orphanPaths: [...sitemapSet].filter((p) => !linkedSet.has(p)).sort(),
+        unlistedPaths: [...linkedSet].filter((p) => !sitemapSet.has(p)).sort(),
+        sharedCount: [...sitemapSet].filter((p) => linkedSet.has(p)).length,
+    };
+}
+
+function resolveDiscoveryMode(config: SiteConfig, options: CrawlOptions): DiscoveryMode {
+    const fromEnv = process.env.CRAWL_DISCOVERY?.toLowerCase() as DiscoveryMode | undefined;
+    if (fromEnv && !DISCOVERY_MODES.includes(fromEnv)) {
+        console.warn(`[CRAWLER] Ignoring unknown CRAWL_DISCOVERY "${fromEnv}". Expected one of: ${DISCOVERY_MODES.join(', ')}`);
     }
-    
-    return contentUrls;
+    const envMode = fromEnv && DISCOVERY_MODES.includes(fromEnv) ? fromEnv : undefined;
+    return options.discovery ?? envMode ?? config.discoveryMode ?? 'sitemap';
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so a given seed always yields the same sample.
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Fisher-Yates shuffle driven by a createSeededRandom generator; returns a shuffled copy. */
+export function seededShuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+function resolveStrategy(config: SiteConfig, options: CrawlOptions): CrawlStrategy {
+    const fromEnv = process.env.CRAWL_STRATEGY?.toLowerCase() as CrawlStrategy | undefined;
+    if (fromEnv && !CRAWL_STRATEGIES.includes(fromEnv)) {
+        console.warn(`[CRAWLER] Ignoring unknown CRAWL_STRATEGY "${fromEnv}". Expected one of: ${CRAWL_STRATEGIES.join(', ')}`);
+    }
+    const envStrategy = fromEnv && CRAWL_STRATEGIES.includes(fromEnv) ? fromEnv : undefined;
+    return options.strategy ?? envStrategy ?? config.crawlStrategy ?? DEFAULT_STRATEGY;
+}
+
+/** Crawl seed: options.seed, CRAWL_SEED, config.crawlSeed or a fresh random seed, as an unsigned 32-bit integer. */
+export function resolveSeed(config: SiteConfig, options: CrawlOptions = {}): number {
+    const fromEnv = process.env.CRAWL_SEED?.trim();
+    const envSeed = fromEnv ? Number(fromEnv) : undefined;
+    if (fromEnv && !Number.isInteger(envSeed)) {
+        console.warn(`[CRAWLER] Ignoring non-integer CRAWL_SEED "${fromEnv}".`);
+    }
+    const validEnvSeed = Number.isInteger(envSeed) ? envSeed : undefined;
+    return (options.seed ?? validEnvSeed ?? config.crawlSeed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+}
+
+const safeSiteName = (siteName: string) => siteName.replace(/[^a-z0-9.-]+/gi, '_');
+
+/** File name prefix of the persisted state: the site, plus the suite when one is given. */
+const stateKey = (siteName: string, suite?: string) => safeSiteName(suite ? `${siteName}_${suite}` : siteName);
+
+function getCrawlStatePath(siteName: string, suite?: string): string {
+    return path.join(CRAWL_STATE_DIR, `${stateKey(siteName, suite)}.json`);
+}
+
+function getLatestSelectionPath(siteName: string, suite?: string): string {
+    return path.join(SELECTIONS_DIR, `${stateKey(siteName, suite)}_latest.json`);
+}
+
+function persistSelection(selection: CrawlSelection): string {
+    fs.mkdirSync(SELECTIONS_DIR, { recursive: true });
+    const stamp = selection.createdAt.replace(/[:.]/g, '-');
+    const selectionPath = path.join(SELECTIONS_DIR, `${stateKey(selection.site, selection.suite)}_${stamp}.json`);
+    const body = JSON.stringify(selection, null, 2);
+    fs.writeFileSync(selectionPath, body, 'utf8');
+    fs.writeFileSync(getLatestSelectionPath(selection.site, selection.suite), body, 'utf8');
+    return selectionPath;
+}
+
+/** @returns null when the selection file belongs to another site (the caller skips this project). */
+function loadSelection(replay: string, siteName: string, suite?: string): { selection: CrawlSelection; file: string } | null {
+    const file = replay === 'latest' ? getLatestSelectionPath(siteName, suite) : path.resolve(replay);
+    if (!fs.existsSync(file)) {
+        throw new Error(`[CRAWLER] Crawl selection to replay not found: ${file}`);
+    }
+    const selection = JSON.parse(fs.readFileSync(file, 'utf8')) as CrawlSelection;
+    if (selection.site !== siteName) {
+        return null;
+    }
+    if (selection.suite && suite && selection.suite !== suite) {
+        console.warn(`[CRAWLER] Replaying a selection made by ${selection.suite} in ${suite}.`);
+    }
+    return { selection, file };
+}
+
+/**
+ * Latest persisted selection for the site (pages picked by the last crawl audit of the given suite,
+ * e.g. 'p0-crawl-audit-desktop'), or null when none exists.
+ */
+export function readLatestSelection(siteName: string, suite?: string): CrawlSelection | null {
+    try {
+        return JSON.parse(fs.readFileSync(getLatestSelectionPath(siteName, suite), 'utf8')) as CrawlSelection;
+    } catch {
+        return null;
+    }
+}
+
+function readLastRunAt(siteName?: string, suite?: string): number | undefined {
+    if (!siteName) return undefined;
+    try {
+        const state = JSON.parse(fs.readFileSync(getCrawlStatePath(siteName, suite), 'utf8'));
+        const lastRunAt = Date.parse(state.lastRunAt);
+        return Number.isNaN(lastRunAt) ? undefined : lastRunAt;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Stores the run's selection time as the 'recent' strategy's last run. Call after the audit has finished
+ * (and after recordCrawlCoverage), so pages modified before an aborted run are still picked up next time.
+ */
+export function recordCrawlRun(siteName: string, startedAt: string, suite?: string) {
+    const runAt = new Date(startedAt);
+    if (Number.isNaN(runAt.getTime())) return;
+    const statePath = getCrawlStatePath(siteName, suite);
+    let state: Record<string, unknown> = {};
+    try {
+        state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+    } catch {
+        // First run for this site
+    }
+    fs.mkdirSync(CRAWL_STATE_DIR, { recursive: true });
+    fs.writeFileSync(statePath, JSON.stringify({ ...state, lastRunAt: runAt.toISOString() }, null, 2), 'utf8');
+}
+
+function getCoverageLedgerPath(siteName: string, suite?: string): string {
+    return path.join(CRAWL_STATE_DIR, `${stateKey(siteName, suite)}.coverage.json`);
+}
+
+function readCoverageLedger(siteName: string, suite?: string): CoverageLedger | null {
+    try {
+        return JSON.parse(fs.readFileSync(getCoverageLedgerPath(siteName, suite), 'utf8')) as CoverageLedger;
+    } catch {
+        return null;
+    }
+}
+
+function writeCoverageLedger(ledger: CoverageLedger) {
+    fs.mkdirSync(CRAWL_STATE_DIR, { recursive: true });
+    fs.writeFileSync(getCoverageLedgerPath(ledger.site, ledger.suite), JSON.stringify(ledger, null, 2), 'utf8');
+}
+
+function toCoverage(ledger: CoverageLedger): CrawlCoverage {
+    const eligible = new Set(ledger.eligible);
+    const auditedCount = ledger.audited.filter((p) => eligible.has(p)).length;
+    const percent = eligible.size === 0 ? 100 : Math.round((auditedCount / eligible.size) * 1000) / 10;
+    return { cycle: ledger.cycle, auditedCount, eligibleCount: eligible.size, percent };
+}
+
+/**
+ * 'rotating' strategy: drops the paths already audited in the current cycle and starts a new
+ * cycle once everything eligible has been covered. Persists the refreshed eligible list.
+ */
+function pickUnvisitedEntries(siteName: string, suite: string | undefined, entries: EligibleEntry[], now: Date): { remaining: EligibleEntry[]; coverage: CrawlCoverage } {
+    const previous = readCoverageLedger(siteName, suite);
+    const ledger: CoverageLedger = previous ?? {
+        site: siteName,
+        suite,
+        cycle: 1,
+        cycleStartedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        eligible: [],
+        audited: [],
+    };
+    ledger.eligible = entries.map((entry) => entry.path);
+
+    const audited = new Set(ledger.audited);
+    let remaining = entries.filter((entry) => !audited.has(entry.path));
+    if (remaining.length === 0 && entries.length > 0) {
+        console.log(`[CRAWLER] Coverage cycle ${ledger.cycle} complete for ${siteName}. Starting cycle ${ledger.cycle + 1}.`);
+        ledger.cycle += 1;
+        ledger.cycleStartedAt = now.toISOString();
+        ledger.audited = [];
+        remaining = entries;
+    }
+
+    ledger.updatedAt = now.toISOString();
+    writeCoverageLedger(ledger);
+    return { remaining, coverage: toCoverage(ledger) };
 }
 
+/**
+ * Marks the given paths as audited in the coverage ledger of the site and suite ('rotating' strategy) and
+ * returns the coverage of the current cycle. Call after the audit so pages of an aborted run are picked again.
+ */
+export function recordCrawlCoverage(siteName: string, auditedPaths: string[], suite?: string): CrawlCoverage | null {
+    const ledger = readCoverageLedger(siteName, suite);
+    if (!ledger) return null;
+
+    const eligible = new Set(ledger.eligible);
+    const audited = new Set(ledger.audited);
+    for (const auditedPath of auditedPaths) {
+        if (eligible.has(auditedPath)) audited.add(auditedPath);
+    }
+    ledger.audited = Array.from(audited);
+    ledger.updatedAt = new Date().toISOString();
+    writeCoverageLedger(ledger);
+    return toCoverage(ledger);
+}
 
 /**
- * Sitemap-based site discovery.
+ * Orders/samples the eligible entries according to the strategy.
+ */
+function selectEntries(
+    entries: EligibleEntry[],
+    strategy: CrawlStrategy,
+    maxPages: number,
+    random: () => number,
+    lastRunAt?: number
+): EligibleEntry[] {
+    switch (strategy) {
+        case 'full':
+            return entries;
+
+        case 'recent':
+        case 'rotating': {
+            // Shuffle first so entries without (or with equal) lastmod do not always keep sitemap order
+            const shuffled = seededShuffle(entries, random);
+            const modifiedSinceLastRun = (entry: EligibleEntry) =>
+                lastRunAt !== undefined && entry.lastmod !== undefined && entry.lastmod > lastRunAt ? 1 : 0;
+            shuffled.sort((a, b) =>
+                modifiedSinceLastRun(b) - modifiedSinceLastRun(a) || (b.lastmod ?? 0) - (a.lastmod ?? 0)
+            );
+            return shuffled.slice(0, maxPages);
+        }
+
+        case 'priority': {
+            // Weighted sampling without replacement (Efraimidis-Spirakis): key = u^(1/weight)
+            const keyed = entries.map((entry) => {
+                const weight = Math.max(entry.priority * (CHANGEFREQ_WEIGHTS[entry.changefreq ?? ''] ?? 1), 0.01);
+                return { entry, key: Math.pow(random(), 1 / weight) };
+            });
+            keyed.sort((a, b) => b.key - a.key);
+            return keyed.slice(0, maxPages).map(({ entry }) => entry);
+        }
+
+        case 'random':
+        default:
+            return seededShuffle(entries, random).slice(0, maxPages);
+    }
+}
+
+/**
+ * Site discovery (sitemap or link graph, see DiscoveryMode) followed by strategy-based URL selection.
  */
 export async function crawlSite(
     page: Page,
     baseURL: string,
     config: SiteConfig,
+    options: CrawlOptions = {},
 ): Promise<CrawlResult> {
-    const eligibleUrls: string[] = [];
+    const eligibleEntries: EligibleEntry[] = [];
     const skippedUrls: string[] = [];
     const maxPages = config.maxPages; 
+    const runStartedAt = new Date();
+
+    // Replay: reuse the exact page set and order of a previous run
+    const replay = options.replay ?? process.env.CRAWL_REPLAY?.trim();
+    if (replay && !options.siteName) {
+        console.log(`[CRAWLER] Ignoring CRAWL_REPLAY: replay needs a siteName (persisted selections are per site). Selecting fresh pages.`);
+    } else if (replay && options.siteName) {
+        const loaded = loadSelection(replay, options.siteName, options.suite);
+        if (!loaded) {
+            const replaySkipReason = `CRAWL_REPLAY selection ${path.resolve(replay)} belongs to another site than ${options.siteName}.`;
+            console.log(`[CRAWLER] ${replaySkipReason} Skipping.`);
+            return {
+                discoveredUrls: [],
+                startedAt: runStartedAt.toISOString(),
+                skippedUrls,
+                discovery: 'sitemap',
+                strategy: resolveStrategy(config, options),
+                seed: 0,
+                selectionFile: null,
+                replayed: true,
+                replaySkipReason,
+                sitemapUrls: [],
+                sitemapIssues: [],
+            };
+        }
+        const { selection, file } = loaded;
+        console.log(`[CRAWLER] Replaying ${selection.urls.length} URLs from ${file} (strategy: ${selection.strategy}, seed: ${selection.seed}, recorded ${selection.createdAt})`);
+        return {
+            discoveredUrls: [...selection.urls],
+            startedAt: runStartedAt.toISOString(),
+            skippedUrls,
+            discovery: 'sitemap',
+            strategy: selection.strategy,
+            seed: selection.seed,
+            selectionFile: file,
+            replayed: true,
+            sitemapUrls: [],
+            sitemapIssues: [],
+        };
+    }
+
+    let strategy = resolveStrategy(config, options);
+    if (strategy === 'rotating' && !options.siteName) {
+        console.warn(`[CRAWLER] Strategy 'rotating' needs a siteName for its coverage ledger. Falling back to 'recent'.`);
+        strategy = 'recent';
+    }
+    const seed = resolveSeed(config, options);
+    console.log(`[CRAWLER] Crawl seed: ${seed} (re-run the same sample with CRAWL_SEED=${seed})`);
     
-    const sitemapUrl = `${baseURL}/sitemap.xml`; 
-    
-    console.log(`[CRAWLER] Attempting to fetch sitemap from: ${sitemapUrl}`);
-    
-    const rawContentUrls = await fetchAndFilterSitemapUrls(sitemapUrl, baseURL, new Set<string>());
+    const discovery = resolveDiscoveryMode(config, options);
+    let rawContentUrls: { loc: string; lastmod?: string; changefreq?: string; priority?: number }[] = [];
+    let fetchedSitemaps: string[] = [];
+    let sitemapIssues: SitemapIssue[] = [];
 
-    console.log(`[CRAWLER] Successfully found ${rawContentUrls.length} links from all sitemaps.`);
+    if (discovery === 'links') {
+        const graph = await discoverByLinks(page, baseURL, config);
+        rawContentUrls = graph.linkedPaths.map((linkedPath) => ({ loc: new URL(linkedPath, baseURL).toString() }));
+    } else {
+        // Sitemaps come from robots.txt `Sitemap:` lines, falling back to /sitemap.xml
+        const collection = await collectSitemapEntries(baseURL);
+        rawContentUrls = collection.entries;
+        fetchedSitemaps = collection.fetchedSitemaps;
+        sitemapIssues = collection.issues;
 
-    // --- FILTERING AND LIMITING ---
-    for (const fullUrl of rawContentUrls) {
-        let path = '';
+        console.log(`[CRAWLER] Successfully found ${rawContentUrls.length} links in ${fetchedSitemaps.length} sitemap(s) (roots: ${collection.rootSitemaps.join(', ')}).`);
+        if (sitemapIssues.length > 0) {
+            console.error(`[CRAWLER] ${sitemapIssues.length} sitemap issue(s) found during discovery.`);
+        }
+    }
 
-        try {
-            // 1. Normalize the full URL to a relative path
-            const urlObj = new URL(fullUrl);
-            let pathname = urlObj.pathname.replace(/\/$/, '');
-            if (pathname === '') pathname = '/';
-            path = pathname.split('?')[0];
-        } catch (e) {
-            // Ignore malformed full URLs
-            skippedUrls.push(fullUrl);
+    // --- FILTERING AND LIMITING ---
+    for (const entry of rawContentUrls) {
+        // 1. Normalize the full URL to a relative path (malformed URLs are skipped)
+        const path = toCrawlPath(entry.loc);
+        if (path === null) {
+            skippedUrls.push(entry.loc);
             continue;
         }
 
-        // Check 1: Exclude Patterns
-        if (config.excludePatterns.some(pattern => pattern.test(path))) {
+        if (!isEligiblePath(path, config)) {
             skippedUrls.push(path);
             continue;
         }
         
-        // Check 2: Include Patterns (MUST match at least one)
-        if (!config.includePatterns.some(pattern => pattern.test(path))) {
-            skippedUrls.push(path); 
-            continue;
-        }
-        
-        eligibleUrls.push(path);
+        const lastmod = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+        eligibleEntries.push({
+            path,
+            lastmod: Number.isNaN(lastmod) ? undefined : lastmod,
+            changefreq: entry.changefreq,
+            priority: entry.priority ?? DEFAULT_PRIORITY,
+        });
     }
 
-    // Deduplicate before sampling
-    const uniqueEligibleUrls = Array.from(new Set(eligibleUrls));
+    // Deduplicate before sampling (first occurrence keeps its sitemap metadata)
+    const seenPaths = new Set<string>();
+    const uniqueEligibleEntries = eligibleEntries.filter((entry) => {
+        if (seenPaths.has(entry.path)) return false;
+        seenPaths.add(entry.path);
+        return true;
+    });
+
+    let candidates = uniqueEligibleEntries;
+    let coverage: CrawlCoverage | undefined;
+    if (strategy === 'rotating') {
+        const rotation = pickUnvisitedEntries(options.siteName as string, options.suite, uniqueEligibleEntries, runStartedAt);
+        candidates = rotation.remaining;
+        coverage = rotation.coverage;
+        console.log(`[CRAWLER] Strategy 'rotating': cycle ${coverage.cycle}, ${coverage.auditedCount}/${coverage.eligibleCount} already audited (${coverage.percent}%), ${candidates.length} remaining.`);
+    }
 
-    // Fisher-Yates shuffle to randomize selection deterministically per run
-    for (let i = uniqueEligibleUrls.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [uniqueEligibleUrls[i], uniqueEligibleUrls[j]] = [uniqueEligibleUrls[j], uniqueEligibleUrls[i]];
+    const lastRunAt = readLastRunAt(options.siteName, options.suite);
+    if (strategy === 'recent') {
+        const modifiedCount = lastRunAt === undefined
+            ? 0
+            : uniqueEligibleEntries.filter((entry) => entry.lastmod !== undefined && entry.lastmod > lastRunAt).length;
+        const since = lastRunAt === undefined ? 'no previous crawl recorded' : `${modifiedCount} modified since ${new Date(lastRunAt).toISOString()}`;
+        console.log(`[CRAWLER] Strategy 'recent': ${since}.`);
     }
 
-    const discoveredUrls = uniqueEligibleUrls.slice(0, maxPages);
+    const selectedEntries = selectEntries(candidates, strategy, maxPages, createSeededRandom(seed), lastRunAt);
+    const discoveredUrls = selectedEntries.map((entry) => entry.path);
 
-    console.log(`[CRAWLER] Final URLs selected for audit: ${discoveredUrls.length}`);
+    console.log(`[CRAWLER] Final URLs selected for audit: ${discoveredUrls.length} (discovery: ${discovery}, strategy: ${strategy}, seed: ${seed})`);
 
     // Fallback if no URLs were found (e.g., sitemap index was empty or fatal error)
     if (discoveredUrls.length === 0) {
@@ -159,5 +681,19 @@ export async function crawlSite(
 
     // Ensure the array is unique just before returning
     const uniqueDiscovered = Array.from(new Set(discoveredUrls));
-    return { discoveredUrls: uniqueDiscovered, skippedUrls };
+
+    let selectionFile: string | null = null;
+    if (options.siteName) {
+        selectionFile = persistSelection({
+            site: options.siteName,
+            suite: options.suite,
+            createdAt: runStartedAt.toISOString(),
+            strategy,
+            seed,
+            urls: uniqueDiscovered,
+        });
+        console.log(`[CRAWLER] Selection saved to ${selectionFile} (replay with CRAWL_REPLAY=${selectionFile})`);
+    }
+
+    return { discoveredUrls: uniqueDiscovered, startedAt: runStartedAt.toISOString(), skippedUrls, discovery, strategy, seed, selectionFile, replayed: false, coverage, sitemapUrls: fetchedSitemaps, sitemapIssues };
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+// tests/e2e/config/expectedOffers.ts
+// Per-brand expected offers shown on offer cards, checked by weekly/p1-offer-terms-desktop.spec.ts.
+// Update together with the operator's current campaign; an outdated card on a live page fails the spec.
+
+import { brandIdFor } from '../helpers/brandConsistency';
+import { findBrandByDataCasino } from './brands';
+import type { CasinoReviewSiteName } from './sites-casino-reviews';
+
+export type ExpectedOffer = {
+    /** Brand id, name or alias from config/brands.ts (matched with brandIdFor, like the data-casino values) */
+    brand: string;
+    /** Restricts the entry to these sites (site-exclusive offers); omit for every site */
+    sites?: CasinoReviewSiteName[];
+    /** Substring (case-insensitive) or pattern the bonus headline must match */
+    bonusHeadline?: string | RegExp;
+    freeSpins?: number;
+    /** Wagering multiplier; only compared when the card states one */
+    wageringRequirement?: number;
+    requireTermsLink?: boolean;
+    requireAgeDisclaimer?: boolean;
+};
+
+/**
+ * Filled from the operators' current campaign briefs only. Every brand must exist in config/brands.ts
+ * (see findUnregisteredOfferBrands); cards of brands without an entry are extracted but not compared.
+ */
+export const expectedOffers: ExpectedOffer[] = [];
+
+/** Entries whose brand is not in the brand registry; they could never match a card. */
+export function findUnregisteredOfferBrands(): string[] {
+    return expectedOffers.filter((offer) => !findBrandByDataCasino(offer.brand)).map((offer) => offer.brand);
+}
+
+/** Site-specific entry first, then the entry that applies to every site. */
+export function findExpectedOffer(site: CasinoReviewSiteName, casinoName: string): ExpectedOffer | null {
+    const brandId = brandIdFor(casinoName);
+    const candidates = expectedOffers.filter((offer) => brandIdFor(offer.brand) === brandId);
+    return candidates.find((offer) => offer.sites?.includes(site)) ?? candidates.find((offer) => !offer.sites) ?? null;
+}
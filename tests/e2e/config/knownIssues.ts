@@ -0,0 +1,125 @@
+// tests/e2e/config/knownIssues.ts
+// Declarative per-site registry of known CTA audit issues, consulted by the crawl and high-traffic audits.
+
+import type { AuditFailure } from '../helpers/failureReporter';
+import { siteConfigs, type SiteName } from './sites';
+
+/**
+ * - 'skip': the page/link is not audited at all (e.g. it stalls the run)
+ * - 'acknowledge': the failure is still recorded, but with severity "acknowledged" so it does not fail the audit
+ */
+export type KnownIssueAction = 'skip' | 'acknowledge';
+
+export type KnownIssue = {
+    /** Stable identifier, written to the failure CSV */
+    id: string;
+    site: SiteName;
+    action: KnownIssueAction;
+    /** Page the issue lives on (exact relative path, trailing slash ignored, or a pattern). Omit to match every page. */
+    sourcePath?: string | RegExp;
+    /** Pattern matched against the CTA href. Omit to match every link (page-level skip). */
+    hrefPattern?: RegExp;
+    /** Brand slug that must appear as a token of the CTA href path (e.g. 'betano') */
+    brandSlug?: string;
+    /** Failure category (e.g. 'Redirect Brand Mismatch'). Only used by 'acknowledge' entries; omit to match any type. */
+    issueType?: string;
+    /** Person or team responsible for following up */
+    owner: string;
+    reason: string;
+    /** Last day (YYYY-MM-DD, inclusive) the entry is honoured; afterwards the issue is re-escalated */
+    expires: string;
+};
+
+export type KnownIssueQuery = {
+    sourcePath: string;
+    href?: string | null;
+    issueType?: string;
+};
+
+export type KnownIssueMatch = {
+    issue: KnownIssue;
+    expired: boolean;
+};
+
+export const knownIssues: KnownIssue[] = [
+    {
+        id: 'ccr-betano-external-stall',
+        site: 'casino.com.ro',
+        action: 'skip',
+        hrefPattern: /betano/i,
+        owner: 'QA Automation',
+        reason: 'Betano redirect stalls on the operator side and blocks the audit run',
+        expires: '2026-12-31',
+    },
+];
+
+const normalizePath = (value: string) => value.split(/[?#]/)[0].replace(/\/+$/, '') || '/';
+
+function toPath(value: string): string {
+    try {
+        return value.startsWith('http') ? new URL(value).pathname : value;
+    } catch {
+        return value;
+    }
+}
+
+function hrefTokens(href: string): string[] {
+    return toPath(href).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+export function isKnownIssueExpired(issue: KnownIssue, now: Date = new Date()): boolean {
+    const expiresAt = new Date(`${issue.expires}T23:59:59.999Z`);
+    return Number.isNaN(expiresAt.getTime()) || now.getTime() > expiresAt.getTime();
+}
+
+function matches(issue: KnownIssue, query: KnownIssueQuery): boolean {
+    if (issue.sourcePath !== undefined) {
+        const path = normalizePath(toPath(query.sourcePath));
+        const matched = typeof issue.sourcePath === 'string'
+            ? normalizePath(issue.sourcePath) === path
+            : issue.sourcePath.test(path);
+        if (!matched) return false;
+    }
+
+    const linkSpecific = issue.hrefPattern !== undefined || issue.brandSlug !== undefined;
+    if (linkSpecific && !query.href) return false;
+    if (issue.hrefPattern && !issue.hrefPattern.test(query.href ?? '')) return false;
+    if (issue.brandSlug && !hrefTokens(query.href ?? '').includes(issue.brandSlug.toLowerCase())) return false;
+
+    if (issue.issueType && issue.issueType !== query.issueType) return false;
+    return true;
+}
+
+/**
+ * Returns the first registry entry for the site/action matching the query, flagged as expired when past its date.
+ * Page-level lookups (no href) only match entries without href/brand constraints.
+ */
+export function findKnownIssue(
+    site: SiteName,
+    action: KnownIssueAction,
+    query: KnownIssueQuery,
+    now: Date = new Date()
+): KnownIssueMatch | null {
+    const issue = knownIssues.find((entry) => entry.site === site && entry.action === action && matches(entry, query));
+    return issue ? { issue, expired: isKnownIssueExpired(issue, now) } : null;
+}
+
+/** Skip lookup used before auditing a page or link; expired entries no longer skip. */
+export function findActiveSkip(site: SiteName, query: KnownIssueQuery): KnownIssue | null {
+    const match = findKnownIssue(site, 'skip', query);
+    if (match?.expired) {
+        console.warn(`[${site}] ⚠️ Known issue ${match.issue.id} expired on ${match.issue.expires} (owner: ${match.issue.owner}); auditing ${query.href ?? query.sourcePath} again.`);
+        return null;
+    }
+    return match?.issue ?? null;
+}
+
+/** Resolver for createFailureReporter: matches a recorded failure against the 'acknowledge' entries. */
+export function matchAcknowledgedFailure(failure: AuditFailure): KnownIssueMatch | null {
+    if (!(failure.project in siteConfigs)) return null;
+    return findKnownIssue(failure.project as SiteName, 'acknowledge', {
+        sourcePath: failure.sourceUrl,
+        href: failure.targetUrl,
+        issueType: failure.category,
+    });
+}
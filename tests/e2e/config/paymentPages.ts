@@ -0,0 +1,29 @@
+// tests/e2e/config/paymentPages.ts
+// Payment-method landing pages per project. Checked by monthly/p1-metode-de-plata-SC-desktop.spec.ts and included
+// in monthly/p1-image-integrity-desktop.spec.ts (payment logos).
+
+import type { SiteName } from './sites';
+
+export type PaymentPageConfig = {
+    path: string;
+    label: string;
+    keyword: string;
+    expectedPaymentPattern: RegExp;
+};
+
+export const PAYMENT_METHOD_PAGES: Partial<Record<SiteName, PaymentPageConfig[]>> = {
+    supercazino: [
+        { path: '/blog/visa/', label: 'Visa', keyword: 'visa', expectedPaymentPattern: /visa/i },
+        { path: '/blog/mastercard/', label: 'Mastercard', keyword: 'mastercard', expectedPaymentPattern: /mastercard/i },
+        { path: '/blog/card-revolut-casino/', label: 'Card Revolut', keyword: 'revolut', expectedPaymentPattern: /revolut/i },
+        { path: '/blog/cazinouri-skrill/', label: 'Skrill', keyword: 'skrill', expectedPaymentPattern: /skrill/i },
+        { path: '/blog/neteller/', label: 'Neteller', keyword: 'neteller', expectedPaymentPattern: /neteller/i },
+        { path: '/blog/cazinouri-paysafecard/', label: 'Paysafecard', keyword: 'paysafecard', expectedPaymentPattern: /paysafecard/i },
+        { path: '/blog/transfer-bancar/', label: 'Transfer Bancar', keyword: 'transfer', expectedPaymentPattern: /transfer\s*bancar/i },
+        { path: '/blog/okto-cash/', label: 'Okto Cash', keyword: 'okto', expectedPaymentPattern: /okto/i },
+        { path: '/blog/abon/', label: 'Abon', keyword: 'abon', expectedPaymentPattern: /abon/i },
+        { path: '/blog/cazinouri-paypal/', label: 'PayPal', keyword: 'paypal', expectedPaymentPattern: /paypal/i },
+        { path: '/blog/trustly/', label: 'Trustly', keyword: 'trustly', expectedPaymentPattern: /trustly/i },
+        { path: '/blog/cazinouri-top-pay/', label: 'Top Pay', keyword: 'top pay', expectedPaymentPattern: /top\s*pay/i },
+    ],
+};
@@ -0,0 +1,25 @@
+// tests/e2e/config/rankingContracts.ts
+// Declarative ranking contracts: which operator sits in which offer slot on the commercial pages,
+// as agreed with the operators. Checked by weekly/p0-ranking-contract-desktop.spec.ts.
+
+import type { CasinoReviewSiteName } from './sites-casino-reviews';
+
+export type RankingContract = {
+    /** Page path (relative to the project baseURL, or absolute) */
+    pagePath: string;
+    /** Expected brands in slot order (slot 1 first); brand ids or names from config/brands.ts */
+    expectedBrands: string[];
+    /** Slots a contracted brand may drift from its agreed slot (default 0 = exact slot) */
+    tolerance?: number;
+    /** Offer card selector override; defaults to offerCardSelector from casinoReviewSiteConfigs */
+    offerCardSelector?: string;
+    /** Contract reference or note shown in failure details */
+    note?: string;
+};
+
+/**
+ * Filled from the signed placement schedule only; a site without a contract is skipped by the spec.
+ * Only the contracted top slots are listed; cards after the last contracted slot are not checked, e.g.
+ * `supercazino: [{ pagePath: '/casino-online/', expectedBrands: ['superbet', 'betano'], note: 'Q3 placement' }]`.
+ */
+export const rankingContracts: Partial<Record<CasinoReviewSiteName, RankingContract[]>> = {};
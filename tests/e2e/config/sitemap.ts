@@ -0,0 +1,360 @@
+// tests/e2e/config/sitemap.ts - Sitemap discovery, fetching and parsing (sitemapindex/urlset, gzip, namespaces)
+
+import { default as fetch } from 'node-fetch';
+import { URL } from 'url';
+import { gunzipSync } from 'zlib';
+
+const SITEMAP_NS = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const IMAGE_NS = 'http://www.google.com/schemas/sitemap-image/1.1';
+const NEWS_NS = 'http://www.google.com/schemas/sitemap-news/0.9';
+const USER_AGENT = 'Playwright Crawler Bot';
+
+export type SitemapImage = {
+    loc: string;
+    title?: string;
+};
+
+export type SitemapNews = {
+    title?: string;
+    publicationDate?: string;
+};
+
+export type SitemapUrlEntry = {
+    loc: string;
+    lastmod?: string;
+    changefreq?: string;
+    priority?: number;
+    images: SitemapImage[];
+    news?: SitemapNews;
+    /** Sitemap file the entry was listed in */
+    sitemapUrl: string;
+};
+
+export type SitemapIndexEntry = {
+    loc: string;
+    lastmod?: string;
+};
+
+export type ParsedSitemap =
+    | { kind: 'sitemapindex'; sitemaps: SitemapIndexEntry[]; issues: string[] }
+    | { kind: 'urlset'; urls: Omit<SitemapUrlEntry, 'sitemapUrl'>[]; issues: string[] };
+
+/** A sitemap problem that should be reported as an audit failure. */
+export type SitemapIssue = {
+    sitemapUrl: string;
+    /** Short failure type, e.g. 'Sitemap Fetch Failure', 'Malformed Sitemap' */
+    reason: string;
+    details: string;
+};
+
+export type SitemapDocument = {
+    url: string;
+    /** URL after redirects */
+    finalUrl: string;
+    redirected: boolean;
+    status: number;
+    ok: boolean;
+    contentType: string;
+    /** Decoded XML (gunzipped when the body was gzip compressed) */
+    xml: string;
+    gzipped: boolean;
+};
+
+export type SitemapCollection = {
+    /** Sitemap URLs the crawl started from (robots.txt or /sitemap.xml) */
+    rootSitemaps: string[];
+    /** Every sitemap file requested (including failed ones), in fetch order */
+    fetchedSitemaps: string[];
+    /** Response metadata of every sitemap that answered (XML body omitted) */
+    documents: Omit<SitemapDocument, 'xml'>[];
+    entries: SitemapUrlEntry[];
+    issues: SitemapIssue[];
+};
+
+// --- Minimal namespace-aware XML parsing ---
+
+type XmlElement = {
+    /** Local name (without prefix) */
+    name: string;
+    /** Resolved namespace URI ('' when none) */
+    ns: string;
+    children: XmlElement[];
+    text: string;
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attrRegex = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match;
+    while ((match = attrRegex.exec(raw)) !== null) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+/**
+ * Parses an XML document into a tree of elements with resolved namespaces.
+ * Not a validating parser, but throws on the structural errors that make a sitemap unreadable
+ * (mismatched/unclosed tags, missing root element).
+ */
+function parseXml(xml: string): XmlElement {
+    const source = xml
+        .replace(/^\uFEFF/, '')
+        .replace(/<\?[\s\S]*?\?>/g, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>/gi, '');
+
+    const tokenRegex = /<!\[CDATA\[([\s\S]*?)\]\]>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|(<)/g;
+    const root: XmlElement = { name: '#document', ns: '', children: [], text: '' };
+    const stack: { element: XmlElement; qname: string; namespaces: Record<string, string> }[] = [
+        { element: root, qname: '#document', namespaces: { xml: 'http://www.w3.org/XML/1998/namespace' } },
+    ];
+    let match;
+
+    while ((match = tokenRegex.exec(source)) !== null) {
+        const current = stack[stack.length - 1];
+        const [, cdata, closeTag, openTag, rawAttributes, selfClosing, text, strayLt] = match;
+
+        if (cdata !== undefined) {
+            current.element.text += cdata;
+        } else if (closeTag !== undefined) {
+            if (stack.length === 1 || current.qname !== closeTag) {
+                throw new Error(`Unexpected closing tag </${closeTag}>${stack.length > 1 ? ` (expected </${current.qname}>)` : ''}`);
+            }
+            stack.pop();
+        } else if (openTag !== undefined) {
+            const attributes = parseAttributes(rawAttributes ?? '');
+            const namespaces = { ...current.namespaces };
+            for (const [attribute, value] of Object.entries(attributes)) {
+                if (attribute === 'xmlns') namespaces[''] = value;
+                else if (attribute.startsWith('xmlns:')) namespaces[attribute.slice(6)] = value;
+            }
+            const [prefix, localName] = openTag.includes(':') ? openTag.split(':', 2) : ['', openTag];
+            const element: XmlElement = { name: localName, ns: namespaces[prefix] ?? '', children: [], text: '' };
+            current.element.children.push(element);
+            if (!selfClosing) stack.push({ element, qname: openTag, namespaces });
+        } else if (text !== undefined) {
+            current.element.text += decodeEntities(text);
+        } else if (strayLt !== undefined) {
+            throw new Error(`Unparseable markup near: ${source.slice(match.index, match.index + 60)}`);
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Unclosed tag <${stack[stack.length - 1].qname}>`);
+    }
+    if (root.children.length !== 1) {
+        throw new Error(root.children.length === 0 ? 'No root element' : 'Multiple root elements');
+    }
+    return root.children[0];
+}
+
+/** Sitemap protocol elements: accept the official namespace, or no namespace at all (lenient). */
+const isSitemapElement = (element: XmlElement, name: string) =>
+    element.name === name && (element.ns === SITEMAP_NS || element.ns === '');
+
+function childText(parent: XmlElement, name: string, ns?: string): string | undefined {
+    const child = parent.children.find((c) => (ns ? c.name === name && c.ns === ns : isSitemapElement(c, name)));
+    const value = child?.text.trim();
+    return value ? value : undefined;
+}
+
+/**
+ * Parses sitemap XML, telling <sitemapindex> and <urlset> apart by their root element.
+ * Throws when the document is not well-formed or is not a sitemap.
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+    const root = parseXml(xml);
+    const issues: string[] = [];
+
+    if (isSitemapElement(root, 'sitemapindex')) {
+        const sitemaps: SitemapIndexEntry[] = [];
+        root.children
+            .filter((child) => isSitemapElement(child, 'sitemap'))
+            .forEach((child, index) => {
+                const loc = childText(child, 'loc');
+                if (!loc) issues.push(`<sitemap> #${index + 1} has no <loc>`);
+                else sitemaps.push({ loc, lastmod: childText(child, 'lastmod') });
+            });
+        return { kind: 'sitemapindex', sitemaps, issues };
+    }
+
+    if (isSitemapElement(root, 'urlset')) {
+        const urls: Omit<SitemapUrlEntry, 'sitemapUrl'>[] = [];
+        root.children
+            .filter((child) => isSitemapElement(child, 'url'))
+            .forEach((child, index) => {
+                const loc = childText(child, 'loc');
+                if (!loc) {
+                    issues.push(`<url> #${index + 1} has no <loc>`);
+                    return;
+                }
+
+                const rawPriority = childText(child, 'priority');
+                const priority = rawPriority === undefined ? undefined : parseFloat(rawPriority);
+                if (rawPriority !== undefined && !(priority! >= 0 && priority! <= 1)) {
+                    issues.push(`<url> ${loc} has an invalid <priority> "${rawPriority}"`);
+                }
+
+                const images = child.children
+                    .filter((c) => c.name === 'image' && c.ns === IMAGE_NS)
+                    .map((image) => ({ loc: childText(image, 'loc', IMAGE_NS) ?? '', title: childText(image, 'title', IMAGE_NS) }))
+                    .filter((image) => image.loc);
+
+                const newsElement = child.children.find((c) => c.name === 'news' && c.ns === NEWS_NS);
+                const news = newsElement
+                    ? { title: childText(newsElement, 'title', NEWS_NS), publicationDate: childText(newsElement, 'publication_date', NEWS_NS) }
+                    : undefined;
+
+                urls.push({
+                    loc,
+                    lastmod: childText(child, 'lastmod'),
+                    changefreq: childText(child, 'changefreq')?.toLowerCase(),
+                    priority: priority !== undefined && Number.isFinite(priority) ? priority : undefined,
+                    images,
+                    news,
+                });
+            });
+        return { kind: 'urlset', urls, issues };
+    }
+
+    throw new Error(`Unexpected root element <${root.name}>${root.ns ? ` (namespace ${root.ns})` : ''}; expected <urlset> or <sitemapindex>`);
+}
+
+// --- Fetching and discovery ---
+
+/**
+ * Fetches a sitemap file, transparently gunzipping `.xml.gz` / gzip bodies.
+ */
+export async function fetchSitemapDocument(url: string): Promise<SitemapDocument> {
+    const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+    const body = Buffer.from(await response.arrayBuffer());
+    // Gzip magic bytes: servers often send .xml.gz as application/octet-stream without Content-Encoding
+    const gzipped = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+
+    return {
+        url,
+        finalUrl: response.url || url,
+        redirected: response.redirected,
+        status: response.status,
+        ok: response.ok,
+        contentType: response.headers.get('content-type') ?? '',
+        xml: (gzipped ? gunzipSync(body) : body).toString('utf8'),
+        gzipped,
+    };
+}
+
+/**
+ * Reads `Sitemap:` lines from robots.txt; falls back to /sitemap.xml when none are declared.
+ */
+export async function discoverSitemapUrls(baseURL: string): Promise<string[]> {
+    const robotsUrl = `${baseURL}/robots.txt`;
+    try {
+        const response = await fetch(robotsUrl, { headers: { 'User-Agent': USER_AGENT } });
+        if (response.ok) {
+            const declared = (await response.text())
+                .split(/\r?\n/)
+                .map((line) => /^\s*sitemap\s*:\s*(\S+)/i.exec(line)?.[1])
+                .filter((value): value is string => !!value)
+                .map((value) => new URL(value, baseURL).toString());
+            if (declared.length > 0) {
+                console.log(`[SITEMAP] robots.txt declares ${declared.length} sitemap(s): ${declared.join(', ')}`);
+                return Array.from(new Set(declared));
+            }
+        }
+    } catch (error) {
+        console.warn(`[SITEMAP] Could not read ${robotsUrl}: ${error}`);
+    }
+    return [`${baseURL}/sitemap.xml`];
+}
+
+const sameSite = (url: string, baseURL: string) => {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '') === new URL(baseURL).hostname.replace(/^www\./, '');
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Walks every sitemap reachable from robots.txt (or /sitemap.xml), following sitemap indexes,
+ * and collects all <url> entries. Fetch and parse problems are returned as issues instead of
+ * being swallowed, so callers can report them as audit failures.
+ */
+export async function collectSitemapEntries(baseURL: string, rootSitemaps?: string[]): Promise<SitemapCollection> {
+    const roots = rootSitemaps ?? (await discoverSitemapUrls(baseURL));
+    const collection: SitemapCollection = { rootSitemaps: roots, fetchedSitemaps: [], documents: [], entries: [], issues: [] };
+    const visited = new Set<string>();
+    const queue = [...roots];
+
+    while (queue.length > 0) {
+        const sitemapUrl = queue.shift() as string;
+        if (visited.has(sitemapUrl)) continue;
+        visited.add(sitemapUrl);
+        collection.fetchedSitemaps.push(sitemapUrl);
+
+        let document: SitemapDocument;
+        try {
+            document = await fetchSitemapDocument(sitemapUrl);
+        } catch (error) {
+            collection.issues.push({ sitemapUrl, reason: 'Sitemap Fetch Failure', details: String(error) });
+            continue;
+        }
+        collection.documents.push({
+            url: document.url,
+            finalUrl: document.finalUrl,
+            redirected: document.redirected,
+            status: document.status,
+            ok: document.ok,
+            contentType: document.contentType,
+            gzipped: document.gzipped,
+        });
+
+        if (!document.ok) {
+            collection.issues.push({ sitemapUrl, reason: 'Sitemap Fetch Failure', details: `HTTP ${document.status}` });
+            continue;
+        }
+
+        let parsed: ParsedSitemap;
+        try {
+            parsed = parseSitemapXml(document.xml);
+        } catch (error) {
+            collection.issues.push({ sitemapUrl, reason: 'Malformed Sitemap', details: (error as Error).message });
+            continue;
+        }
+
+        for (const issue of parsed.issues) {
+            collection.issues.push({ sitemapUrl, reason: 'Malformed Sitemap Entry', details: issue });
+        }
+
+        if (parsed.kind === 'sitemapindex') {
+            console.log(`[SITEMAP] Found Sitemap Index at ${sitemapUrl} with ${parsed.sitemaps.length} sub-sitemaps.`);
+            if (parsed.sitemaps.length === 0) {
+                collection.issues.push({ sitemapUrl, reason: 'Empty Sitemap', details: '<sitemapindex> lists no sitemaps' });
+            }
+            for (const { loc } of parsed.sitemaps) {
+                if (sameSite(loc, baseURL)) queue.push(loc);
+                else console.warn(`[SITEMAP] Skipping off-site sub-sitemap ${loc} listed in ${sitemapUrl}`);
+            }
+        } else {
+            if (parsed.urls.length === 0) {
+                collection.issues.push({ sitemapUrl, reason: 'Empty Sitemap', details: '<urlset> lists no URLs' });
+            }
+            collection.entries.push(...parsed.urls.map((entry) => ({ ...entry, sitemapUrl })));
+        }
+    }
+
+    return collection;
+}
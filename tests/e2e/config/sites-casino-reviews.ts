@@ -17,6 +17,25 @@ export type AttributeStrategy = {
 
 export type CasinoNameStrategy = TextStrategy | AttributeStrategy;
 
+/** Selectors inside an offer card for the bonus details; unset fields fall back to DEFAULT_OFFER_DETAIL_SELECTORS */
+export type OfferDetailSelectors = {
+    /** Bonus headline (e.g. "100% până la 9.999 RON + 1.000 Rotiri") */
+    bonusHeadline?: string;
+    /** Bullet points / short terms that may mention wagering (rulaj) and free spins */
+    terms?: string;
+    /** T&C link */
+    termsLink?: string;
+    /** Element carrying the 18+ / responsible-gambling notice */
+    disclaimer?: string;
+};
+
+export const DEFAULT_OFFER_DETAIL_SELECTORS: Required<OfferDetailSelectors> = {
+    bonusHeadline: '.offer__title, .text-offer, .offer-title, [class*="bonus-text"], [class*="offer-text"]',
+    terms: '.offer__list li, [class*="terms"], [class*="tc-text"], small',
+    termsLink: 'a[href*="termeni"], a[href*="conditii"], a[href*="terms"], a[href*="/tc"], a:has-text("T&C"), a:has-text("Termeni")',
+    disclaimer: '[class*="disclaimer"], [class*="icon_18"], [class*="age-limit"], [class*="responsible"]',
+};
+
 export type CasinoReviewSiteConfig = {
     /** Relative path where the casino review offer cards live */
     pagePath: string;
@@ -28,6 +47,8 @@ export type CasinoReviewSiteConfig = {
     casinoNameStrategy: CasinoNameStrategy;
     /** Optional override for locating the page H1 (defaults to `h1`) */
     h1Selector?: string;
+    /** Selectors for the bonus details inside each card (see OfferDetailSelectors) */
+    offerDetailSelectors?: OfferDetailSelectors;
 };
 
 export const casinoReviewSiteConfigs: Record<CasinoReviewSiteName, CasinoReviewSiteConfig> = {
@@ -41,6 +62,10 @@ export const casinoReviewSiteConfigs: Record<CasinoReviewSiteName, CasinoReviewS
             attribute: 'data-casino',
         },
         h1Selector: 'h1',
+        offerDetailSelectors: {
+            bonusHeadline: 'a.text-offer',
+            terms: '.hidden-content .border-bottom',
+        },
     },
     'casino.com.ro': {
         pagePath: '/',
@@ -97,5 +122,9 @@ export const casinoReviewSiteConfigs: Record<CasinoReviewSiteName, CasinoReviewS
             removeSuffixes: ['Casino', 'Cazino'],
         },
         h1Selector: 'h1',
+        offerDetailSelectors: {
+            bonusHeadline: '.offer__title',
+            terms: '.offer__list li',
+        },
     },
 };
@@ -1,5 +1,7 @@
 // tests/e2e/config/sites.ts
 
+import type { CrawlStrategy, DiscoveryMode } from './crawler';
+
 export type SiteName = 'supercazino' | 'jocpacanele' | 'jocuricazinouri' | 'jocsloturi' | 'casino.com.ro' | 'beturi';
 
 export type SiteConfig = {
@@ -17,14 +19,22 @@ export type SiteConfig = {
     highTrafficPaths: string[]; 
     /** ➡️ NEW: Regex pattern that identifies any affiliate link on this domain */
     affiliateUrlPattern: RegExp;
-    /** ➡️ FIX: Define skipped paths for unstable pages */
-    skippedPaths?: string[];
+    /** Crawl URL selection strategy (defaults to 'rotating', see config/crawler.ts) */
+    crawlStrategy?: CrawlStrategy;
+    /** Fixed seed for the 'random' / 'priority' crawl strategies */
+    crawlSeed?: number;
+    /** Candidate URL source for the crawl audit (defaults to 'sitemap') */
+    discoveryMode?: DiscoveryMode;
+    /** Max link depth from startPaths in 'links' discovery (defaults to 3) */
+    maxLinkDepth?: number;
+    /** Max redirects allowed between our tracking link and the operator landing (defaults to 6) */
+    maxRedirectHops?: number;
+    /** Extra tracker hosts allowed mid-chain in CTA redirects, on top of the shared affiliate platforms */
+    trackerHostPatterns?: RegExp[];
   
 };
 
 // --- DEFINITIVE PATTERN CONSTANTS ---
-const ALL_CASINOS = 'topbet|winbet|luck|12xBet|bonusbet|swipercasino|redsevens|magnumbet|mrplay|king|prowin|winner|32rosu|conti|lasvegas|mozzartbet|winboss|fortunapalace|ultrabet|maxwin|princess|vivabet|admiralbet|prima|totogaming|pokerstars|mrbit|betfair|player|pariuriplus|luckyseven|totalbet|one|manhattan|gameworld|favbet|million|frank|excelbet|superbet|getsbet|fortuna|eliteslots|publicwin|hotspins|don|betmen|cashpot|betano|bet7|888|vlad|lady|casapariurilor|powerbet|winmasters|spin|maxbet|netbet|seven|royalslots|stanleybet|playgg|win2|slotv|unibet|platinum|mozzart|victory|royal';
-const SLUG_PATTERN = `(${ALL_CASINOS.replace(/ /g, '')})`; 
 const URL_END = '(\\/?|\\?.*)$';
 const RE_FLAGS = 'i'; 
 
@@ -78,7 +88,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
             '/joc-slot/sweet-bonanza-gratis/'            
         ],
         affiliateUrlPattern: createAffiliatePattern('/goaffcas/'), 
-        skippedPaths: [],
         
     },
 
@@ -102,7 +111,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
             '/jocuri-cu-pacanele/40-burning-hot-gratis/'
         ],
         affiliateUrlPattern: createAffiliatePattern('/goaffcas/'), 
-        skippedPaths: [],
     
     },
 
@@ -127,7 +135,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
             '/jocuri-casino-gratis/'
         ],
         affiliateUrlPattern: createAffiliatePattern('/aff/so-'), 
-        skippedPaths: [],
         
     },
 
@@ -150,7 +157,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
             '/blog/bonus-fara-rulaj/'
         ],
         affiliateUrlPattern: createAffiliatePattern('/aff/'), 
-        skippedPaths: [],
         
     },
 
@@ -178,7 +184,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
 '/bonus-pariuri-fara-depunere/'
         ],
         affiliateUrlPattern: createAffiliatePattern('/offer/'), 
-        skippedPaths: [],
         
 
     },
@@ -203,7 +208,6 @@ export const siteConfigs: Record<SiteName, SiteConfig> = {
             '/biletul-zilei/'
         ],
         affiliateUrlPattern: createAffiliatePattern('/aff/'), 
-        skippedPaths: [],
         
     },
 } as const;
@@ -0,0 +1,75 @@
+// tests/e2e/config/slotArchives.ts
+// Slot archive pages per project and the selectors used to walk them. Used by
+// monthly/p1-slots-archive-smoke-desktop.spec.ts and, for the archive path, monthly/p1-image-integrity-desktop.spec.ts.
+
+import type { SiteName } from './sites';
+
+export type SlotArchiveConfig = {
+    archivePath: string;
+    slotCardSelector: string;
+    slotLinkSelector?: string;
+    h1Selector?: string;
+    paginationNextSelector?: string;
+    paginationLimit?: number;
+    slotLinkRequiresHover?: boolean;
+    slotHoverSelector?: string;
+    slotNameSelector?: string;
+    loadMoreSelector?: string;
+    loadMoreMaxClicks?: number;
+    loadMoreAllowedDataIds?: string[];
+    loadMorePerButtonLimit?: number;
+    multiLoadMore?: boolean;
+    forceIsolatedValidation?: boolean;
+};
+
+export const SLOT_ARCHIVE_CONFIGS: Partial<Record<SiteName, SlotArchiveConfig>> = {
+    'casino.com.ro': {
+        archivePath: '/sloturi/',
+        slotCardSelector: 'div.col-span-1:has(a[href*="/slot/"])',
+        slotLinkSelector: 'a[href*="/slot/"]',
+        h1Selector: 'h1',
+        paginationNextSelector: '.pagination a.next.page-numbers',
+        paginationLimit: 30,
+    },
+    'jocsloturi': {
+        archivePath: '/toate-jocuri-gratis/',
+        slotCardSelector: '.slot-card',
+        slotLinkSelector: '.slot-image-content .button.button-orange-gradient',
+        slotHoverSelector: '.slot-item',
+        slotLinkRequiresHover: true,
+        slotNameSelector: '.slot-info .slot-button-archive',
+        h1Selector: 'h1',
+        paginationNextSelector: '.ast-pagination a.next.page-numbers',
+        paginationLimit: 60,
+    },
+    'jocpacanele': {
+        archivePath: '/jocuri-pacanele/',
+        slotCardSelector: '.single_slot_card',
+        slotLinkSelector: '.slot-demo-btn, .click-interaction-ajax.btn',
+        slotHoverSelector: '.slot-card',
+        slotLinkRequiresHover: true,
+        slotNameSelector: '.hidden-card .slot-name',
+        h1Selector: 'h1',
+        loadMoreSelector: '#load-more-button',
+        loadMoreMaxClicks: 80,
+    },
+    'jocuricazinouri': {
+        archivePath: '/jocuri-casino-gratis/',
+        slotCardSelector: '.card-play',
+        slotLinkSelector: '.card-play__wrapper .button--internal',
+        slotHoverSelector: '.card-play',
+        slotLinkRequiresHover: true,
+        slotNameSelector: '.card-play__wrapper .p-h6, .card-play__wrapper p.p-h6',
+        h1Selector: 'h1',
+        paginationNextSelector: '.posts-pagination .page-item.next a.page-link',
+        paginationLimit: 50,
+    },
+    'supercazino': {
+        archivePath: '/sloturi-gratis/',
+        slotCardSelector: '.card_inner.single-slot-in-card',
+        slotLinkSelector: '.card_inner.single-slot-in-card a.btn.btn--1',
+        slotNameSelector: '.card_inner.single-slot-in-card .sc-h4-slot-card',
+        h1Selector: 'h1',
+        forceIsolatedValidation: true,
+    },
+};
@@ -0,0 +1,36 @@
+// tests/e2e/config/structuredData.ts
+// Page types for the JSON-LD audit (monthly/p1-structured-data-desktop.spec.ts) and the schema.org types each must expose.
+
+import type { SiteName } from './sites';
+
+export type StructuredDataPageType = 'slot' | 'review' | 'listing';
+
+/** Path patterns per page type; listing pages are the highTrafficPaths that match neither. */
+export const STRUCTURED_DATA_PAGE_PATTERNS: Record<Exclude<StructuredDataPageType, 'listing'>, RegExp[]> = {
+    slot: [/^\/(joc-slot|slot|jocuri-cu-pacanele)\/[^/]+\/?$/i],
+    review: [/^\/(cazinou|recenzie)\/[^/]+\/?$/i],
+};
+
+/** Extra patterns for sites whose URL structure differs from the shared one. */
+export const SITE_STRUCTURED_DATA_PATTERNS: Partial<Record<SiteName, Partial<Record<Exclude<StructuredDataPageType, 'listing'>, RegExp[]>>>> = {
+    jocuricazinouri: { review: [/^\/casino\/[^/]+\/?$/i] },
+};
+
+/**
+ * Each entry is one requirement: at least one node of the listed types must be present.
+ * The homepage is a listing page without breadcrumbs and has no requirement.
+ */
+export const REQUIRED_STRUCTURED_DATA: Record<StructuredDataPageType, string[][]> = {
+    slot: [['VideoGame', 'Game'], ['BreadcrumbList']],
+    review: [['Review', 'AggregateRating'], ['BreadcrumbList']],
+    listing: [['BreadcrumbList']],
+};
+
+export function resolveStructuredDataPageType(siteName: SiteName, pathname: string): StructuredDataPageType {
+    const sitePatterns = SITE_STRUCTURED_DATA_PATTERNS[siteName] ?? {};
+    for (const type of ['slot', 'review'] as const) {
+        const patterns = [...STRUCTURED_DATA_PAGE_PATTERNS[type], ...(sitePatterns[type] ?? [])];
+        if (patterns.some((pattern) => pattern.test(pathname))) return type;
+    }
+    return 'listing';
+}
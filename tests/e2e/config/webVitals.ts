@@ -0,0 +1,42 @@
+// tests/e2e/config/webVitals.ts
+// Core Web Vitals budgets for the homepage smoke suites (daily/p0-homepage-smoke-{desktop,mobile}.spec.ts).
+
+import type { SiteName } from './sites';
+
+export type WebVitalsDevice = 'desktop' | 'mobile';
+
+/** Upper bounds; times in ms, CLS unitless. A breach is a soft failure. */
+export type WebVitalsBudget = {
+    lcp: number;
+    cls: number;
+    inp: number;
+    tbt: number;
+    ttfb: number;
+    fcp: number;
+};
+
+/** "Needs improvement" starts above the web.dev "good" thresholds; TBT follows the Lighthouse guidance. */
+export const DEFAULT_WEB_VITALS_BUDGET: WebVitalsBudget = {
+    lcp: 2500,
+    cls: 0.1,
+    inp: 200,
+    tbt: 200,
+    ttfb: 800,
+    fcp: 1800,
+};
+
+/**
+ * Site and device budgets measured from real runs (web-vitals/<project>-<device>.jsonl), merged over the default,
+ * e.g. `jocpacanele: { mobile: { ttfb: 1200, tbt: 400 } }`. Loosen a site only for a known, accepted regression
+ * and tighten it again once fixed. Until a site and device has an entry here, H3 only records breaches.
+ */
+export const webVitalsBudgets: Partial<Record<SiteName, Partial<Record<WebVitalsDevice, Partial<WebVitalsBudget>>>>> = {};
+
+export function resolveWebVitalsBudget(siteName: SiteName, device: WebVitalsDevice): WebVitalsBudget {
+    return { ...DEFAULT_WEB_VITALS_BUDGET, ...webVitalsBudgets[siteName]?.[device] };
+}
+
+/** True once a measured budget is configured for the site and device; breaches then fail H3. */
+export function hasMeasuredWebVitalsBudget(siteName: SiteName, device: WebVitalsDevice): boolean {
+    return webVitalsBudgets[siteName]?.[device] !== undefined;
+}
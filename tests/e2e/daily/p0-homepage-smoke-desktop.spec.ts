@@ -2,9 +2,9 @@
 
 // CRITICAL IMPORTS
 import { test, expect, TestInfo, Page, Locator } from '@playwright/test'; 
-import * as fs from "fs"; 
-import path from "path"; 
 import { siteConfigs, SiteName } from '../config/sites'; 
+import { createFailureReporter } from '../helpers/failureReporter';
+import { auditWebVitals } from '../helpers/webVitals';
 import '../helpers/inactivityWatchdog';
 
 /**
@@ -14,27 +14,11 @@ const getSiteNameFromProject = (projectName: string): SiteName => {
     return projectName as SiteName;
 };
 
-// --- CSV CONFIGURATION ---
-const BASE_REPORT_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
+// --- FAILURE REPORTING ---
+const failureReporter = createFailureReporter('p0-homepage-smoke-desktop', 'critical');
 
-const CSV_HEADER = 'Project,Test ID,Failure Type,Details,Failing URL\n';
-
-function getCsvFilePath(projectName: string) {
-    return path.join(BASE_REPORT_DIR, `${projectName}_p0-homepage-smoke-desktop_${RUN_TIMESTAMP}.csv`);
-}
-
-function ensureCsvInitialized(projectName: string) {
-    if (!fs.existsSync(BASE_REPORT_DIR)) {
-        fs.mkdirSync(BASE_REPORT_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-        console.log(`[CSV] Initialized ${csvPath}`);
-    }
-    return csvPath;
-}
+// Web Vitals budgets and history are kept per device profile
+const DEVICE = 'desktop' as const;
 
 // --- CORE UTILITY FUNCTIONS ---
 function stripDiacritics(text: string): string {
@@ -216,15 +200,8 @@ async function recoverFromServiceUnavailableH1(
     return true;
 }
 
-function csvEscape(str: string | null | undefined): string {
-    if (str === null || str === undefined) return '""';
-    return `"${String(str).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
-}
-
 function logFailureToCsv(projectName: string, testId: string, type: string, details: string, url: string) {
-    const csvRow = `${csvEscape(projectName)},${csvEscape(testId)},${csvEscape(type)},${csvEscape(details)},${csvEscape(url)}`;
-    const csvFilePath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvFilePath, csvRow + '\n', { encoding: 'utf8' });
+    failureReporter.record({ project: projectName, testId, category: type, details, sourceUrl: url });
 }
 
 // --- TYPE DEFINITION (Simplified for generic H1 test) ---
@@ -259,7 +236,7 @@ test('H1: Homepage Load Performance - Initial Load and Key Elements Visibility',
     
     // 1. CSV Initialization (Run once for the first project in the test config)
     if (projectName === 'casino.com.ro' || projectName === 'beturi' || projectName === 'jocpacanele' || projectName === 'jocsloturi') { // Ensures initialization happens
-        ensureCsvInitialized(siteName);
+        failureReporter.ensureInitialized(siteName);
         // Reset soft failure accumulator at the start of the entire test run
         softFailuresAcc = []; 
     }
@@ -713,4 +690,12 @@ test('H2: Main Navigation Functionality - Top Menu and Logo Link Check', async (
     if (softFailuresAcc.length > 0) {
         throw new Error(`H2 test completed with ${softFailuresAcc.length} soft failures. Check CSV for details.`);
     }
+});
+
+
+// --- H3: Core Web Vitals (ID: H3) ---
+test('H3: Core Web Vitals - Homepage and High-Traffic Pages', async ({ page }, testInfo: TestInfo) => {
+    test.setTimeout(15 * 60 * 1000);
+    await auditWebVitals(page, testInfo, DEVICE, failureReporter);
+    testInfo.annotations.push({ type: 'Test ID', description: 'H3' });
 });
\ No newline at end of file
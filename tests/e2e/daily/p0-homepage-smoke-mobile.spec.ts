@@ -3,6 +3,8 @@
 // CRITICAL IMPORTS
 import { test, expect, TestInfo, devices, Locator } from '@playwright/test'; 
 import { siteConfigs, SiteName } from '../config/sites'; 
+import { createFailureReporter } from '../helpers/failureReporter';
+import { auditWebVitals } from '../helpers/webVitals';
 import '../helpers/inactivityWatchdog';
 import {
     SITE_TO_MENU_MAP,
@@ -12,8 +14,6 @@ import {
     checkH1Content,
     humanizePage,
     buildAbsoluteUrl,
-    logFailureToCsv,
-    ensureCsvInitialized,
 } from '../helpers/mobileMenuUtils';
 
 /**
@@ -35,6 +35,16 @@ test.use({
 
 type SubLinkRecord = { text: string; href: string };
 
+// --- FAILURE REPORTING ---
+const failureReporter = createFailureReporter('p0-homepage-smoke-mobile', 'critical');
+
+// Web Vitals budgets and history are kept per device profile
+const DEVICE = 'mobile' as const;
+
+function logFailureToCsv(projectName: string, testId: string, type: string, details: string, url: string) {
+    failureReporter.record({ project: projectName, testId, category: type, details, sourceUrl: url });
+}
+
 // Global soft failure accumulator (must be tracked outside of test functions)
 let softFailuresAcc: string[] = [];
 
@@ -47,7 +57,7 @@ test('H1: Homepage Load Performance - Initial Load and Key Elements Visibility',
     
     // 1. CSV Initialization (Run once for the first project in the test config)
     if (projectName === 'casino.com.ro' || projectName === 'beturi' || projectName === 'jocpacanele' || projectName === 'jocsloturi') { // Ensures initialization happens
-        ensureCsvInitialized(siteName);
+        failureReporter.ensureInitialized(siteName);
         // Reset soft failure accumulator at the start of the entire test run
         softFailuresAcc = []; 
     }
@@ -547,4 +557,12 @@ test('H2: Main Navigation Functionality - Top Menu and Logo Link Check', async (
     if (softFailuresAcc.length > 0) {
         throw new Error(`H2 test completed with ${softFailuresAcc.length} soft failures. Check CSV for details.`);
     }
+});
+
+
+// --- H3: Core Web Vitals (ID: H3) ---
+test('H3: Core Web Vitals - Homepage and High-Traffic Pages', async ({ page }, testInfo: TestInfo) => {
+    test.setTimeout(15 * 60 * 1000);
+    await auditWebVitals(page, testInfo, DEVICE, failureReporter);
+    testInfo.annotations.push({ type: 'Test ID', description: 'H3' });
 });
\ No newline at end of file
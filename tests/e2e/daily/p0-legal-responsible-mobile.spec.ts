@@ -10,11 +10,12 @@
 // Playwright's core testing functions and TypeScript types.
 import { test, expect, type TestInfo, type Page, devices } from '@playwright/test'; 
 
-// Node.js modules for file system (fs) and path manipulation, used for CSV logging.
-import * as fs from "fs"; 
+// Node.js path module, used for the resume-state file location.
 import path from "path"; 
 // Configuration for the target sites.
 import { siteConfigs, SiteName } from '../config/sites'; 
+import { readLatestSelection } from '../config/crawler';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 /**
@@ -50,60 +51,21 @@ function writeState(state: ResumeState) {
     // ... (Code to write current state to a JSON file)
 }
 
-// --- CSV CONFIGURATION ---
-// Defines where the failure report is stored and the column headers for the CSV file.
-const BASE_REPORT_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Test ID,Failure Type,Details,Failing URL\n';
-
-function getCsvFilePath(projectName: string) {
-    return path.join(
-        BASE_REPORT_DIR,
-        `${projectName}_p0-legal-responsible-mobile_${RUN_TIMESTAMP}.csv`,
-    );
-}
-
-function ensureCsvInitialized(projectName: string) {
-    if (!fs.existsSync(BASE_REPORT_DIR)) {
-        fs.mkdirSync(BASE_REPORT_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-        console.log(`[CSV] Initialized Legal Compliance Report: ${csvPath}`);
-    }
-    return csvPath;
-}
+// --- FAILURE REPORTING ---
+// Failures are written through the shared reporter (failures/<project>_p0-legal-responsible-mobile_<timestamp>.csv).
+const failureReporter = createFailureReporter('p0-legal-responsible-mobile', 'critical');
 
 // -------------------------------------------------------------------------
 // 🛠️ SECTION 2: CORE UTILITY FUNCTIONS
 // These functions handle file manipulation, data formatting, and link validation.
 // -------------------------------------------------------------------------
 
-/**
- * Ensures text output is safe for CSV format by wrapping it in quotes and escaping inner quotes.
- */
-function csvEscape(str: string | null | undefined): string {
-    if (str === null || str === undefined) return '""';
-    return `"${String(str).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
-}
-
-/**
- * Appends a detailed failure record to the shared CSV report file.
- * This function handles creating the file/directory if it doesn't exist.
- */
-function logFailureToCsv(projectName: string, testId: string, type: string, details: string, url: string) {
-    const csvRow = `${csvEscape(projectName)},${csvEscape(testId)},${csvEscape(type)},${csvEscape(details)},${csvEscape(url)}`;
-    const csvFilePath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvFilePath, csvRow + '\n', { encoding: 'utf8' });
-}
-
 /**
  * CORE LINK VALIDATION FUNCTION.
- * Navigates to the specified URL to check its HTTP status code.
+ * Navigates to the specified URL to check its HTTP status code, then returns to the audited page.
  * @returns true if status is 200-399 (Success/Redirect), false otherwise.
  */
-async function checkLinkStatus(page: Page, url: string, linkText: string, projectName: string, testId: string): Promise<boolean> {
+async function checkLinkStatus(page: Page, url: string, linkText: string, projectName: string, testId: string, returnUrl: string): Promise<boolean> {
     let statusCode = 0;
     try {
         const response = await page.goto(url, { waitUntil: 'load', timeout: 30000 }); 
@@ -114,23 +76,22 @@ async function checkLinkStatus(page: Page, url: string, linkText: string, projec
             console.log(`[${projectName}] ✅ PASSED: Link "${linkText}" redirected successfully (Status: ${statusCode}). URL: ${url}`);
             return true;
         } else {
-            // Failure logic: log to CSV and console
+            // Failure logic: record the failure and log to console
             const errorMsg = `Link failed with status code: ${statusCode}.`;
-            logFailureToCsv(projectName, testId, 'Link Status Failure', errorMsg, url);
+            failureReporter.record({ project: projectName, testId, category: 'Link Status Failure', details: errorMsg, sourceUrl: returnUrl, targetUrl: url });
             console.error(`[${projectName}] ❌ FAILED: Link "${linkText}" failed status validation (Status: ${statusCode}). URL: ${url}`);
             return false;
         }
     } catch (error) {
         // Catch navigation failures (timeouts, crashes, network errors)
         const errorDetails = error instanceof Error ? error.message.split('\n')[0] : 'Unknown navigation error.';
-        logFailureToCsv(projectName, testId, 'Navigation/Crash Fail', errorDetails, url);
+        failureReporter.record({ project: projectName, testId, category: 'Navigation/Crash Fail', details: errorDetails, sourceUrl: returnUrl, targetUrl: url });
         console.error(`[${projectName}] ❌ FAILED: Link "${linkText}" crashed or timed out. Error: ${errorDetails}. URL: ${url}`);
         return false;
     } finally {
-        // CRITICAL: Always navigate back to the homepage to prepare for the next link check
-        const baseURL = (page as any).context()._options.baseURL || '/';
-        await page.goto(baseURL, { waitUntil: 'load', timeout: 10000 }).catch(e => {
-            console.warn(`[${projectName}] WARNING: Failed to recover to homepage after link check.`);
+        // CRITICAL: Always navigate back to the audited page to prepare for the next link check
+        await page.goto(returnUrl, { waitUntil: 'load', timeout: 10000 }).catch(e => {
+            console.warn(`[${projectName}] WARNING: Failed to recover to ${returnUrl} after link check.`);
         });
     }
 }
@@ -138,6 +99,26 @@ async function checkLinkStatus(page: Page, url: string, linkText: string, projec
 // Global array to accumulate "soft failures" (issues that shouldn't stop the test instantly)
 let softFailuresAcc: string[] = []; 
 
+// Number of pages from the latest mobile crawl audit selection (crawl-state/selections) checked on top of highTrafficPaths.
+const LEGAL_CRAWLED_PAGES = Number(process.env.LEGAL_CRAWLED_PAGES) || 0;
+
+/**
+ * Pages whose footer legal links are validated: the homepage, every highTrafficPaths entry and, when
+ * LEGAL_CRAWLED_PAGES is set, the first pages picked by the last crawl audit (footer templates differ per page type).
+ */
+function resolveCompliancePages(siteName: SiteName, baseURL: string): string[] {
+    const paths = ['/', ...siteConfigs[siteName].highTrafficPaths];
+    if (LEGAL_CRAWLED_PAGES > 0) {
+        const selection = readLatestSelection(siteName, 'p0-crawl-audit-mobile');
+        if (selection) {
+            paths.push(...selection.urls.slice(0, LEGAL_CRAWLED_PAGES));
+        } else {
+            console.warn(`[${siteName}] WARNING: LEGAL_CRAWLED_PAGES is set but no crawl selection exists yet. Run the crawl audit first.`);
+        }
+    }
+    return Array.from(new Set(paths.map((pagePath) => new URL(pagePath, baseURL).toString())));
+}
+
 // List of all known project hosts used for dynamic link correction.
 const INTERNAL_HOSTS = [
     'casino.com.ro', 'supercazino', 'jocsloturi', 
@@ -166,15 +147,6 @@ async function runComplianceChecks(page: Page, testInfo: TestInfo) {
 
     console.log(`\n[${siteName}] === Starting Legal Compliance Checks (Current Host: ${currentHost}) ===`); 
     
-    // --- Step 1: Initial Load and Footer Scroll ---
-    await test.step('B7.1/H8.1: Load Page and Scroll to Footer', async () => {
-        await page.goto(baseURL, { waitUntil: 'load' });
-        // Scroll down to ensure footer links are loaded/visible
-        await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-        await page.waitForTimeout(1000); 
-    });
-
-    // --- Step 2: Validate Critical Legal Links (H8.2) ---
     // This array defines the 6 critical links and their necessary URL keywords for locating them.
     const legalLinks = [
         { name: "Licență / Autorizare", selector: 'a[href*="licenta"]', testId: 'H8.2-License' },
@@ -215,69 +187,115 @@ async function runComplianceChecks(page: Page, testInfo: TestInfo) {
         },
     ];
 
-    for (const link of legalLinks) {
-        await test.step(`Validate Link: ${link.name}`, async () => {
-            const linkLocator = page.locator(link.selector);
-            const linkCount = await linkLocator.count();
-            
-            // Checks if the link element can be located at all
-            if (linkCount === 0) {
-                logFailureToCsv(siteName, link.testId, 'Link Visibility/Existence', `No link found with href or text matching keywords: ${link.selector}.`, baseURL);
-                console.error(`[${siteName}] ❌ FAILED: Legal link "${link.name}" not found via definitive HREF/Text selector.`);
-                softFailuresAcc.push(`[${siteName}] ${link.testId}: Link existence failed for "${link.name}".`);
-                return;
+    const pagesToCheck = resolveCompliancePages(siteName, baseURL);
+    // Targets already checked on a previous page: most footer links repeat across templates
+    const linkStatusCache = new Map<string, boolean>();
+    console.log(`[${siteName}] Validating legal links on ${pagesToCheck.length} page(s).`);
+
+    for (const pageUrl of pagesToCheck) {
+        const pagePath = new URL(pageUrl).pathname;
+
+        // --- Step 1: Load Page and Footer Scroll (every high-traffic page, footer templates differ per page type) ---
+        const pageLoaded = await test.step(`B7.1/H8.1: Load ${pagePath} and Scroll to Footer`, async () => {
+            try {
+                const response = await page.goto(pageUrl, { waitUntil: 'load' });
+                const status = response?.status() ?? 0;
+                if (status < 200 || status >= 400) throw new Error(`HTTP ${status}`);
+            } catch (error) {
+                const errorDetails = error instanceof Error ? error.message.split('\n')[0] : 'Unknown navigation error.';
+                failureReporter.record({ project: siteName, testId: 'H8.1-PageLoad', category: 'Page Load Failure', details: errorDetails, sourceUrl: pageUrl });
+                console.error(`[${siteName}] ❌ FAILED: Could not load ${pageUrl}. Error: ${errorDetails}`);
+                softFailuresAcc.push(`[${siteName}] H8.1: Page load failed for ${pageUrl}.`);
+                return false;
             }
+            // Scroll down to ensure footer links are loaded/visible
+            await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+            await page.waitForTimeout(1000); 
+            return true;
+        });
+        if (!pageLoaded) continue;
 
-            let successfulCheck = false;
+        // --- Step 2: Validate Critical Legal Links (H8.2) ---
+        for (const link of legalLinks) {
+            await test.step(`Validate Link: ${link.name} (${pagePath})`, async () => {
+                const linkLocator = page.locator(link.selector);
+                const linkCount = await linkLocator.count();
+            
+                // Checks if the link element can be located at all
+                if (linkCount === 0) {
+                    failureReporter.record({
+                        project: siteName,
+                        testId: link.testId,
+                        category: 'Link Visibility/Existence',
+                        details: `No link found with href or text matching keywords: ${link.selector}.`,
+                        sourceUrl: pageUrl,
+                    });
+                    console.error(`[${siteName}] ❌ FAILED: Legal link "${link.name}" not found via definitive HREF/Text selector on ${pagePath}.`);
+                    softFailuresAcc.push(`[${siteName}] ${link.testId}: Link existence failed for "${link.name}" on ${pagePath}.`);
+                    return;
+                }
 
-            // Iterates through all found link candidates for this topic
-            for (let i = 0; i < linkCount; i++) {
-                const currentLink = linkLocator.nth(i);
-                let linkHref = await currentLink.getAttribute('href') || '';
-                const linkText = await currentLink.innerText() || link.name;
+                let successfulCheck = false;
+
+                // Iterates through all found link candidates for this topic
+                for (let i = 0; i < linkCount; i++) {
+                    const currentLink = linkLocator.nth(i);
+                    let linkHref = await currentLink.getAttribute('href') || '';
+                    const linkText = await currentLink.innerText() || link.name;
                 
-                if (linkHref && linkHref !== '#' && !linkHref.includes(baseURL + '/#')) {
+                    if (linkHref && linkHref !== '#' && !linkHref.includes(baseURL + '/#')) {
                     
-                    let targetUrl = linkHref;
+                        let targetUrl = linkHref;
                     
-                    // Logic to correct links that point to other internal domains
-                    if (linkHref.startsWith('http')) {
-                        const linkUrl = new URL(linkHref);
-                        const linkHost = linkUrl.host.replace(/^www\./, '');
+                        // Logic to correct links that point to other internal domains
+                        if (linkHref.startsWith('http')) {
+                            const linkUrl = new URL(linkHref);
+                            const linkHost = linkUrl.host.replace(/^www\./, '');
                         
-                        if (INTERNAL_HOSTS.includes(linkHost) && linkHost !== currentHost) {
-                            console.warn(`[${siteName}] WARNING: Correcting hardcoded link from ${linkHost} to ${currentHost}`);
-                            // Rewrites the domain to the current project's domain
-                            const correctUrl = new URL(baseURL);
-                            correctUrl.pathname = linkUrl.pathname;
-                            correctUrl.search = linkUrl.search;
-                            targetUrl = correctUrl.toString();
-                        } else if (!linkHref.includes(currentHost) && linkHost.includes('.')) {
-                             // Skips truly external links, unless it's the specific ONJN link
-                             if (!linkHref.includes('onjn.gov.ro')) {
-                                continue;
-                             }
+                            if (INTERNAL_HOSTS.includes(linkHost) && linkHost !== currentHost) {
+                                console.warn(`[${siteName}] WARNING: Correcting hardcoded link from ${linkHost} to ${currentHost}`);
+                                // Rewrites the domain to the current project's domain
+                                const correctUrl = new URL(baseURL);
+                                correctUrl.pathname = linkUrl.pathname;
+                                correctUrl.search = linkUrl.search;
+                                targetUrl = correctUrl.toString();
+                            } else if (!linkHref.includes(currentHost) && linkHost.includes('.')) {
+                                 // Skips truly external links, unless it's the specific ONJN link
+                                 if (!linkHref.includes('onjn.gov.ro')) {
+                                    continue;
+                                 }
+                            }
+                        } else if (linkHref.startsWith('/')) {
+                            targetUrl = baseURL + linkHref; // Corrects relative path
                         }
-                    } else if (linkHref.startsWith('/')) {
-                        targetUrl = baseURL + linkHref; // Corrects relative path
-                    }
 
-                    // Perform the HTTP status check (calls the function in Section 2)
-                    const isStatusOk = await checkLinkStatus(page, targetUrl, linkText.trim(), siteName, `${link.testId}-${i}`);
+                        // Perform the HTTP status check (calls the function in Section 2), once per target URL
+                        let isStatusOk = linkStatusCache.get(targetUrl);
+                        if (isStatusOk === undefined) {
+                            isStatusOk = await checkLinkStatus(page, targetUrl, linkText.trim(), siteName, `${link.testId}-${i}`, pageUrl);
+                            linkStatusCache.set(targetUrl, isStatusOk);
+                        }
 
-                    if (isStatusOk) {
-                        successfulCheck = true;
-                        break; // Stop checking this topic once a valid link is found
+                        if (isStatusOk) {
+                            successfulCheck = true;
+                            break; // Stop checking this topic once a valid link is found
+                        }
                     }
                 }
-            }
 
-            // If no functional link was found after checking all candidates, record a soft failure
-            if (!successfulCheck) {
-                logFailureToCsv(siteName, link.testId, 'Link Status Final Failure', `No functional link found/validated after checking ${linkCount} candidates.`, baseURL);
-                softFailuresAcc.push(`[${siteName}] ${link.testId}: No functional link found for "${link.name}".`);
-            }
-        });
+                // If no functional link was found after checking all candidates, record a soft failure
+                if (!successfulCheck) {
+                    failureReporter.record({
+                        project: siteName,
+                        testId: link.testId,
+                        category: 'Link Status Final Failure',
+                        details: `No functional link found/validated after checking ${linkCount} candidates.`,
+                        sourceUrl: pageUrl,
+                    });
+                    softFailuresAcc.push(`[${siteName}] ${link.testId}: No functional link found for "${link.name}" on ${pagePath}.`);
+                }
+            });
+        }
     }
 
     // Recover page state by navigating back to the homepage
@@ -293,13 +311,6 @@ async function runComplianceChecks(page: Page, testInfo: TestInfo) {
 // Defines the main test suite container.
 test.describe('P0 Legal and Responsible Gaming Compliance', () => {
 
-    // Runs once before any project starts, ensuring the CSV report file is clean.
-    test.beforeAll(() => {
-        if (!fs.existsSync(BASE_REPORT_DIR)) {
-            fs.mkdirSync(BASE_REPORT_DIR, { recursive: true });
-        }
-    });
-
     // CRITICAL FIX: Defines ONE test block. Playwright automatically runs this block 
     // 6 times, once for each project defined in playwright.config.ts, yielding 6 total tests.
     test(`H8/B7: Compliance and Legal Link Validation`, async ({ page, request }, testInfo: TestInfo) => {
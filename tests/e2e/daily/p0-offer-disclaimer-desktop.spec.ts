@@ -0,0 +1,98 @@
+// tests/e2e/daily/p0-offer-disclaimer-desktop.spec.ts
+// Responsible-gambling compliance on offer cards: on every high-traffic page, each card enclosing an affiliate CTA
+// (ctaSelector) must show the 18+ / "Joc responsabil" notice and link to the offer T&C. CTAs outside any offer card
+// carry neither and fail as well.
+
+import { test } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { casinoReviewSiteConfigs, type CasinoReviewSiteName } from '../config/sites-casino-reviews';
+import { createFailureReporter } from '../helpers/failureReporter';
+import { openPageAndClosePopups } from '../helpers/mobileMenuUtils';
+import { collectCtaCardCompliance, type CtaCardCompliance, type LooseCta } from '../helpers/offerCards';
+import '../helpers/inactivityWatchdog';
+
+const TEST_ID = 'OD1';
+const failureReporter = createFailureReporter('p0-offer-disclaimer-desktop', 'critical');
+
+type PageComplianceSummary = {
+    pageUrl: string;
+    cards: CtaCardCompliance[];
+    looseCtas: LooseCta[];
+    loadError?: string;
+};
+
+test.describe('P0 Daily • Offer Card Responsible-Gambling Notice • Desktop', () => {
+    test(`${TEST_ID}: Every offer card shows the 18+ notice and T&C link`, async ({ page }, testInfo) => {
+        test.setTimeout(600_000);
+        const projectName = testInfo.project.name as SiteName;
+        const cfg = siteConfigs[projectName];
+        const baseURL = testInfo.project.use.baseURL;
+        if (!baseURL) {
+            throw new Error(`Project ${projectName} is missing a baseURL in Playwright config.`);
+        }
+
+        failureReporter.ensureInitialized(projectName);
+        const offerCardSelector = casinoReviewSiteConfigs[projectName as CasinoReviewSiteName]?.offerCardSelector;
+        const softFailures: string[] = [];
+        const summaries: PageComplianceSummary[] = [];
+
+        for (const [pageIndex, pagePath] of cfg.highTrafficPaths.entries()) {
+            const pageUrl = new URL(pagePath, baseURL).toString();
+            const stepId = `${TEST_ID}.${pageIndex + 1}`;
+            await test.step(`${stepId} Offer card notices on ${pagePath}`, async () => {
+                const loadError = await openPageAndClosePopups(page, projectName, pageUrl);
+                if (loadError) {
+                    failureReporter.record({ project: projectName, testId: `${stepId}.load`, category: 'Page Load Failure', details: loadError, sourceUrl: pageUrl });
+                    softFailures.push(`[${projectName}] Page Load Failure: ${pageUrl} (${loadError})`);
+                    summaries.push({ pageUrl, cards: [], looseCtas: [], loadError });
+                    return;
+                }
+
+                const { cards, looseCtas } = await collectCtaCardCompliance(page, cfg.ctaSelector, offerCardSelector);
+                summaries.push({ pageUrl, cards, looseCtas });
+                if (cards.length === 0 && looseCtas.length === 0) {
+                    console.log(`[${projectName}] ℹ️ No affiliate CTAs on ${pagePath}.`);
+                    return;
+                }
+
+                for (const cta of looseCtas) {
+                    const details = `CTA for ${cta.casinoName ?? 'unknown casino'} is outside any offer card: no 18+ notice or T&C link next to it`;
+                    failureReporter.record({ project: projectName, testId: `${stepId}.loose`, category: 'Offer CTA Outside Card', details, sourceUrl: pageUrl, targetUrl: cta.href ?? undefined });
+                    console.error(`[${projectName}] ❌ Offer CTA Outside Card: ${details} on ${pageUrl}`);
+                    softFailures.push(`[${projectName}] Offer CTA Outside Card: ${details} on ${pageUrl}`);
+                }
+
+                for (const card of cards) {
+                    const label = `Card ${card.cardIndex} (${card.casinoName ?? 'unknown casino'})`;
+                    const missing: { testId: string; category: string; details: string }[] = [];
+                    if (!card.hasAgeNotice && !card.hasResponsibleNotice) {
+                        missing.push({ testId: `${stepId}.notice`, category: 'Offer Disclaimer Missing', details: `${label}: no 18+ / "Joc responsabil" notice` });
+                    }
+                    if (!card.termsHref) {
+                        missing.push({ testId: `${stepId}.tc`, category: 'Offer T&C Link Missing', details: `${label}: no T&C link` });
+                    }
+
+                    if (missing.length === 0) {
+                        console.log(`[${projectName}] ✅ ${label} on ${pagePath}: notice and T&C link present.`);
+                        continue;
+                    }
+                    for (const failure of missing) {
+                        failureReporter.record({ project: projectName, ...failure, sourceUrl: pageUrl, targetUrl: card.ctaHref ?? undefined });
+                        console.error(`[${projectName}] ❌ ${failure.category}: ${failure.details} on ${pageUrl}`);
+                        softFailures.push(`[${projectName}] ${failure.category}: ${failure.details} on ${pageUrl}`);
+                    }
+                }
+            });
+        }
+
+        testInfo.attachments.push({
+            name: `${projectName}-offer-disclaimers.json`,
+            contentType: 'application/json',
+            body: Buffer.from(JSON.stringify(summaries, null, 2), 'utf8'),
+        });
+
+        if (softFailures.length > 0) {
+            throw new Error(`Detected ${softFailures.length} offer card compliance failure(s):\n${softFailures.join('\n')}`);
+        }
+    });
+});
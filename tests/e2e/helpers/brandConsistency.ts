@@ -0,0 +1,176 @@
+// tests/e2e/helpers/brandConsistency.ts
+// Cross-site analysis of the data-casino collector dumps: brands missing on some sites, inconsistent spellings,
+// position collisions and CTAs whose href slug names another brand. Run by reporters/brandConsistencyReporter.ts.
+
+import * as fs from 'fs';
+import path from 'path';
+import { findBrandByDataCasino, findBrandBySlug, toBrandKey } from '../config/brands';
+import type { SiteName } from '../config/sites';
+
+export type CasinoAttributeRecord = {
+    attribute: 'data-casino' | 'data-casino-name';
+    value: string;
+    href: string;
+    text: string;
+    position: string | null;
+    /** Raw data-casino value (null when the attribute is absent) */
+    dataCasino?: string | null;
+    /** Raw data-casino-name value (null when the attribute is absent) */
+    dataCasinoName?: string | null;
+};
+
+export type ProjectArchiveDump = {
+    archiveUrl: string;
+    totalButtonsDetected: number;
+    capturedAttributes: CasinoAttributeRecord[];
+};
+
+export const CASINO_CTA_DATA_FILENAME = 'casino-cta-data.json';
+export const CASINO_CTA_DATA_PATH = path.join(process.cwd(), CASINO_CTA_DATA_FILENAME);
+/** Per-project dump attached by the collector; the consistency reporter reads it once all projects are done */
+export const CASINO_CTA_DUMP_ATTACHMENT = 'casino-cta-dump.json';
+
+export type BrandPresence = {
+    brand: string;
+    presentOn: string[];
+    missingOn: string[];
+};
+
+export type BrandSpelling = {
+    project: string;
+    attribute: 'data-casino' | 'data-casino-name';
+    value: string;
+};
+
+export type PositionCollision = {
+    project: string;
+    position: string;
+    brands: string[];
+};
+
+export type SlugMismatch = {
+    project: string;
+    href: string;
+    position: string | null;
+    attributeBrand: string;
+    slugBrand: string;
+};
+
+export type AttributeMismatch = {
+    project: string;
+    href: string;
+    dataCasino: string;
+    dataCasinoName: string;
+};
+
+export type BrandConsistencyReport = {
+    generatedAt: string;
+    projects: string[];
+    /** Brands listed on at least one site but not on every site */
+    missingBrands: BrandPresence[];
+    /** Brands written in more than one way across sites / attributes */
+    inconsistentSpellings: { brand: string; spellings: BrandSpelling[] }[];
+    /** Same data-position used by different brands on one archive */
+    duplicatePositions: PositionCollision[];
+    /** CTAs whose href slug resolves to a different brand than their data attribute */
+    slugMismatches: SlugMismatch[];
+    /** CTAs whose data-casino and data-casino-name name different brands */
+    attributeMismatches: AttributeMismatch[];
+};
+
+export function readCasinoCtaData(filePath: string = CASINO_CTA_DATA_PATH): Record<string, ProjectArchiveDump> {
+    if (!fs.existsSync(filePath)) return {};
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, ProjectArchiveDump>;
+    } catch (error) {
+        console.warn(`[WARN] Failed to parse ${filePath}: ${error}`);
+        return {};
+    }
+}
+
+/** Canonical brand id for an attribute value: the registry brand when known, else its spelling without separators. */
+export function brandIdFor(value: string): string {
+    const compact = toBrandKey(value).replace(/-/g, '');
+    return (findBrandByDataCasino(value) ?? findBrandByDataCasino(compact))?.id ?? compact;
+}
+
+/** Both attribute values of a record (older dumps only carry the first one found). */
+function spellingsOf(project: string, record: CasinoAttributeRecord): BrandSpelling[] {
+    const spellings: BrandSpelling[] = [];
+    const dataCasino = record.dataCasino ?? (record.attribute === 'data-casino' ? record.value : null);
+    const dataCasinoName = record.dataCasinoName ?? (record.attribute === 'data-casino-name' ? record.value : null);
+    if (dataCasino) spellings.push({ project, attribute: 'data-casino', value: dataCasino });
+    if (dataCasinoName) spellings.push({ project, attribute: 'data-casino-name', value: dataCasinoName });
+    return spellings;
+}
+
+export function analyzeBrandConsistency(dumps: Record<string, ProjectArchiveDump>): BrandConsistencyReport {
+    const projects = Object.keys(dumps).sort();
+    const sitesByBrand = new Map<string, Set<string>>();
+    const spellingsByBrand = new Map<string, Map<string, BrandSpelling>>();
+    const duplicatePositions: PositionCollision[] = [];
+    const slugMismatches: SlugMismatch[] = [];
+    const attributeMismatches: AttributeMismatch[] = [];
+
+    for (const project of projects) {
+        const brandsByPosition = new Map<string, Set<string>>();
+        // The dump lists every CTA; an identical repeat (same brand, slot and link) adds nothing
+        const seenCtas = new Set<string>();
+
+        for (const record of dumps[project].capturedAttributes) {
+            const brand = brandIdFor(record.value);
+            if (!brand) continue;
+            const ctaKey = `${record.value}|${record.position ?? ''}|${record.href}`;
+            if (seenCtas.has(ctaKey)) continue;
+            seenCtas.add(ctaKey);
+
+            if (!sitesByBrand.has(brand)) sitesByBrand.set(brand, new Set());
+            sitesByBrand.get(brand)!.add(project);
+
+            // data-casino and data-casino-name may disagree on the same CTA: each spelling is tracked under its own brand
+            for (const spelling of spellingsOf(project, record)) {
+                const spellingBrand = brandIdFor(spelling.value);
+                if (!spellingsByBrand.has(spellingBrand)) spellingsByBrand.set(spellingBrand, new Map());
+                spellingsByBrand.get(spellingBrand)!.set(`${spelling.value}|${spelling.attribute}|${project}`, spelling);
+            }
+
+            if (record.dataCasino && record.dataCasinoName && brandIdFor(record.dataCasino) !== brandIdFor(record.dataCasinoName)) {
+                attributeMismatches.push({ project, href: record.href, dataCasino: record.dataCasino, dataCasinoName: record.dataCasinoName });
+            }
+
+            if (record.position) {
+                if (!brandsByPosition.has(record.position)) brandsByPosition.set(record.position, new Set());
+                brandsByPosition.get(record.position)!.add(brand);
+            }
+
+            const slugBrand = findBrandBySlug(project as SiteName, record.href);
+            if (slugBrand && slugBrand.id !== brand) {
+                slugMismatches.push({ project, href: record.href, position: record.position, attributeBrand: brand, slugBrand: slugBrand.id });
+            }
+        }
+
+        for (const [position, positionBrands] of brandsByPosition) {
+            if (positionBrands.size > 1) duplicatePositions.push({ project, position, brands: [...positionBrands].sort() });
+        }
+    }
+
+    const missingBrands: BrandPresence[] = [...sitesByBrand.entries()]
+        .map(([brand, sites]) => ({ brand, presentOn: [...sites].sort(), missingOn: projects.filter((project) => !sites.has(project)) }))
+        .filter((presence) => presence.missingOn.length > 0)
+        .sort((a, b) => b.presentOn.length - a.presentOn.length || a.brand.localeCompare(b.brand));
+
+    const inconsistentSpellings = [...spellingsByBrand.entries()]
+        .map(([brand, spellings]) => ({ brand, spellings: [...spellings.values()] }))
+        .filter(({ spellings }) => new Set(spellings.map((spelling) => spelling.value)).size > 1)
+        .sort((a, b) => a.brand.localeCompare(b.brand));
+
+    return {
+        generatedAt: new Date().toISOString(),
+        projects,
+        missingBrands,
+        inconsistentSpellings,
+        duplicatePositions,
+        slugMismatches,
+        attributeMismatches,
+    };
+}
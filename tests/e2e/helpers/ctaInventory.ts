@@ -0,0 +1,135 @@
+// tests/e2e/helpers/ctaInventory.ts
+// Versioned snapshots of the casino CTA inventory captured on each archive page, with a run-over-run diff
+// (brands added, removed or re-ranked via data-position) for confirming published ranking changes.
+
+import * as fs from 'fs';
+import path from 'path';
+import { brandIdFor, type CasinoAttributeRecord, type ProjectArchiveDump } from './brandConsistency';
+
+export const SNAPSHOT_DIR = process.env.CTA_SNAPSHOT_DIR
+    ? path.resolve(process.env.CTA_SNAPSHOT_DIR)
+    : path.join(process.cwd(), 'cta-snapshots');
+
+export type InventorySnapshot = ProjectArchiveDump & {
+    project: string;
+    capturedAt: string;
+};
+
+/** One brand on the archive page, at its best (lowest) data-position */
+export type InventoryEntry = {
+    brand: string;
+    value: string;
+    position: number | null;
+};
+
+export type InventoryDiff = {
+    project: string;
+    archiveUrl: string;
+    /** Null on the first snapshot for this project */
+    previousCapturedAt: string | null;
+    capturedAt: string;
+    added: InventoryEntry[];
+    removed: InventoryEntry[];
+    reranked: { brand: string; value: string; from: number | null; to: number | null }[];
+    unchanged: number;
+};
+
+const safeProjectName = (project: string) => project.replace(/[^a-z0-9.-]+/gi, '_');
+
+function getProjectSnapshotDir(project: string): string {
+    return path.join(SNAPSHOT_DIR, safeProjectName(project));
+}
+
+function parsePosition(position: string | null): number | null {
+    if (position === null) return null;
+    const parsed = Number.parseInt(position, 10);
+    return Number.isNaN(parsed) ? null : parsed;
+}
+
+/** Brand -> entry at its best position, so a brand repeated in several slots compares by its top rank. */
+export function toInventory(records: CasinoAttributeRecord[]): Map<string, InventoryEntry> {
+    const inventory = new Map<string, InventoryEntry>();
+    for (const record of records) {
+        const brand = brandIdFor(record.value);
+        if (!brand) continue;
+        const position = parsePosition(record.position);
+        const current = inventory.get(brand);
+        if (!current || (position !== null && (current.position === null || position < current.position))) {
+            inventory.set(brand, { brand, value: record.value, position });
+        }
+    }
+    return inventory;
+}
+
+/** Most recent snapshot for the project, or null when none was taken yet. */
+export function loadLatestSnapshot(project: string): InventorySnapshot | null {
+    const dir = getProjectSnapshotDir(project);
+    if (!fs.existsSync(dir)) return null;
+    const files = fs.readdirSync(dir).filter((name) => name.endsWith('.json')).sort();
+    for (const file of files.reverse()) {
+        try {
+            return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as InventorySnapshot;
+        } catch (error) {
+            console.warn(`[CTA Inventory] ⚠️ Skipping unreadable snapshot ${file}: ${(error as Error).message}`);
+        }
+    }
+    return null;
+}
+
+/** Writes a timestamped snapshot (cta-snapshots/<project>/<capturedAt>.json) and returns its path. */
+export function saveInventorySnapshot(snapshot: InventorySnapshot): string {
+    const dir = getProjectSnapshotDir(snapshot.project);
+    fs.mkdirSync(dir, { recursive: true });
+    const snapshotPath = path.join(dir, `${snapshot.capturedAt.replace(/[:.]/g, '-')}.json`);
+    fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf8');
+    return snapshotPath;
+}
+
+export function diffInventory(previous: InventorySnapshot | null, current: InventorySnapshot): InventoryDiff {
+    const before = toInventory(previous?.capturedAttributes ?? []);
+    const after = toInventory(current.capturedAttributes);
+    const diff: InventoryDiff = {
+        project: current.project,
+        archiveUrl: current.archiveUrl,
+        previousCapturedAt: previous?.capturedAt ?? null,
+        capturedAt: current.capturedAt,
+        added: [],
+        removed: [],
+        reranked: [],
+        unchanged: 0,
+    };
+
+    for (const [brand, entry] of after) {
+        const old = before.get(brand);
+        if (!old) diff.added.push(entry);
+        else if (old.position !== entry.position) diff.reranked.push({ brand, value: entry.value, from: old.position, to: entry.position });
+        else diff.unchanged++;
+    }
+    for (const [brand, entry] of before) {
+        if (!after.has(brand)) diff.removed.push(entry);
+    }
+
+    const byPosition = (a: { position?: number | null; to?: number | null }, b: { position?: number | null; to?: number | null }) =>
+        (a.position ?? a.to ?? Infinity) - (b.position ?? b.to ?? Infinity);
+    diff.added.sort(byPosition);
+    diff.removed.sort(byPosition);
+    diff.reranked.sort(byPosition);
+    return diff;
+}
+
+const formatPosition = (position: number | null) => (position === null ? 'no position' : `#${position}`);
+
+/** Plain-text diff view, one line per change. */
+export function formatInventoryDiff(diff: InventoryDiff): string {
+    const lines = [
+        `${diff.project} — ${diff.archiveUrl}`,
+        diff.previousCapturedAt ? `${diff.previousCapturedAt} -> ${diff.capturedAt}` : `First snapshot (${diff.capturedAt})`,
+        '',
+    ];
+    for (const entry of diff.added) lines.push(`+ ${entry.value} (${formatPosition(entry.position)})`);
+    for (const entry of diff.removed) lines.push(`- ${entry.value} (was ${formatPosition(entry.position)})`);
+    for (const entry of diff.reranked) lines.push(`~ ${entry.value}: ${formatPosition(entry.from)} -> ${formatPosition(entry.to)}`);
+    if (diff.added.length + diff.removed.length + diff.reranked.length === 0) lines.push('No changes.');
+    lines.push('', `${diff.added.length} added, ${diff.removed.length} removed, ${diff.reranked.length} re-ranked, ${diff.unchanged} unchanged.`);
+    return lines.join('\n');
+}
@@ -0,0 +1,145 @@
+// tests/e2e/helpers/failureBaseline.ts
+// Run-over-run regression diffing: each (project, suite) keeps a JSON baseline of the failures seen
+// in the previous run, keyed by a stable fingerprint (source path + target + failure type).
+
+import * as fs from 'fs';
+import path from 'path';
+import type { AuditFailure } from './failureReporter';
+
+type BaselineEntry = {
+    fingerprint: string;
+    /** ISO timestamp of the first run that reported this failure */
+    firstSeen: string;
+    /** ISO timestamp of the last run that reported this failure */
+    lastSeen: string;
+    failure: AuditFailure;
+};
+
+type FailureBaseline = {
+    project: string;
+    suite: string;
+    updatedAt: string;
+    entries: Record<string, BaselineEntry>;
+};
+
+export type BaselineComparison = {
+    /** False on the very first run for this project/suite (everything is reported as new). */
+    hasBaseline: boolean;
+    newFailures: AuditFailure[];
+    persisting: AuditFailure[];
+    resolved: AuditFailure[];
+    /** Baseline entries whose source page was not audited this run (kept as-is, not counted as resolved). */
+    notRechecked: number;
+};
+
+export type CompareOptions = {
+    /**
+     * Paths audited in this run. When given, previous failures on pages that were not audited
+     * (e.g. not picked by the crawler sample) are carried over instead of being marked resolved.
+     */
+    auditedSourcePaths?: Iterable<string>;
+};
+
+export const BASELINE_DIR = process.env.AUDIT_BASELINE_DIR
+    ? path.resolve(process.env.AUDIT_BASELINE_DIR)
+    : path.join(process.cwd(), 'audit-baselines');
+
+/** AUDIT_REGRESSION_ONLY=1 -> audits hard-fail only on failures that were not in the previous run. */
+export function isRegressionOnlyMode(): boolean {
+    return /^(1|true|yes)$/i.test(process.env.AUDIT_REGRESSION_ONLY ?? '');
+}
+
+function normalizePath(value: string): string {
+    if (!value) return '';
+    try {
+        const url = new URL(value, 'https://placeholder.invalid');
+        const pathname = url.pathname.replace(/\/+$/, '') || '/';
+        return `${pathname}${url.search}`;
+    } catch {
+        return value.replace(/\/+$/, '') || '/';
+    }
+}
+
+function normalizeTarget(value: string): string {
+    return (value || '').trim().replace(/\/+$/, '');
+}
+
+/**
+ * Stable identity of a failure across runs. Ignores the test id (CTA ids are position based),
+ * the details text and the host of the source page.
+ */
+export function fingerprintFailure(failure: AuditFailure): string {
+    return [normalizePath(failure.sourceUrl), normalizeTarget(failure.targetUrl), failure.category].join(' | ');
+}
+
+function getBaselinePath(project: string, suite: string): string {
+    const safeProject = project.replace(/[^a-z0-9.-]+/gi, '_');
+    return path.join(BASELINE_DIR, `${safeProject}_${suite}.json`);
+}
+
+function loadBaseline(project: string, suite: string): FailureBaseline | null {
+    const baselinePath = getBaselinePath(project, suite);
+    if (!fs.existsSync(baselinePath)) return null;
+    try {
+        return JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as FailureBaseline;
+    } catch (e) {
+        console.warn(`[${project}] ⚠️ Ignoring unreadable baseline ${baselinePath}: ${(e as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Classifies the current failures against the previous run and stores them as the new baseline.
+ */
+export function compareWithBaseline(
+    project: string,
+    suite: string,
+    failures: AuditFailure[],
+    options: CompareOptions = {}
+): BaselineComparison {
+    const now = new Date().toISOString();
+    const previous = loadBaseline(project, suite);
+    const previousEntries = previous?.entries ?? {};
+    const audited = options.auditedSourcePaths ? new Set([...options.auditedSourcePaths].map(normalizePath)) : null;
+
+    const comparison: BaselineComparison = {
+        hasBaseline: previous !== null,
+        newFailures: [],
+        persisting: [],
+        resolved: [],
+        notRechecked: 0,
+    };
+    const nextEntries: Record<string, BaselineEntry> = {};
+
+    for (const failure of failures) {
+        const fingerprint = fingerprintFailure(failure);
+        if (nextEntries[fingerprint]) continue; // Same issue reported twice in one run
+
+        const known = previousEntries[fingerprint];
+        if (known) comparison.persisting.push(failure);
+        else comparison.newFailures.push(failure);
+
+        nextEntries[fingerprint] = { fingerprint, firstSeen: known?.firstSeen ?? now, lastSeen: now, failure };
+    }
+
+    for (const [fingerprint, entry] of Object.entries(previousEntries)) {
+        if (nextEntries[fingerprint]) continue;
+        if (audited && !audited.has(normalizePath(entry.failure.sourceUrl))) {
+            comparison.notRechecked++;
+            nextEntries[fingerprint] = entry;
+            continue;
+        }
+        comparison.resolved.push(entry.failure);
+    }
+
+    fs.mkdirSync(BASELINE_DIR, { recursive: true });
+    const baseline: FailureBaseline = { project, suite, updatedAt: now, entries: nextEntries };
+    fs.writeFileSync(getBaselinePath(project, suite), JSON.stringify(baseline, null, 2), 'utf8');
+
+    return comparison;
+}
+
+export function formatBaselineComparison(comparison: BaselineComparison): string {
+    if (!comparison.hasBaseline) return `No previous baseline — ${comparison.newFailures.length} failure(s) recorded as the initial baseline.`;
+    return `New: ${comparison.newFailures.length}, Persisting: ${comparison.persisting.length}, Resolved: ${comparison.resolved.length}, Not re-checked: ${comparison.notRechecked}`;
+}
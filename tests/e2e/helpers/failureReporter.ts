@@ -0,0 +1,170 @@
+// tests/e2e/helpers/failureReporter.ts
+// Shared soft-failure reporting: every suite writes the same AuditFailure schema to failures/<project>_<suite>_<timestamp>.csv.
+
+import { test } from '@playwright/test';
+import * as fs from 'fs';
+import path from 'path';
+import type { KnownIssueMatch } from '../config/knownIssues';
+
+/** 'acknowledged' = matched an active entry of the known-issue registry (config/knownIssues.ts). */
+export type FailureSeverity = 'critical' | 'major' | 'minor' | 'acknowledged';
+
+/** Single record schema written by every suite, so triage tooling only has to ingest one format. */
+export type AuditFailure = {
+    /** Playwright project name (site) */
+    project: string;
+    /** Suite identifier, usually the spec file name without extension */
+    suite: string;
+    /** Test/step identifier inside the suite (e.g. H1.2, CR1.status) */
+    testId: string;
+    /** Failure type (e.g. Page Load Failure, Redirect Brand Mismatch) */
+    category: string;
+    severity: FailureSeverity;
+    /** Page on which the failure was observed */
+    sourceUrl: string;
+    /** Link/resource that failed, when different from the source page */
+    targetUrl: string;
+    details: string;
+    /** Known-issue registry id, when the failure matched one (suffixed with the expiry date once expired) */
+    knownIssue: string;
+};
+
+export type FailureInput = Omit<AuditFailure, 'suite' | 'severity' | 'sourceUrl' | 'targetUrl' | 'knownIssue'> & {
+    severity?: FailureSeverity;
+    sourceUrl?: string;
+    targetUrl?: string;
+};
+
+export type FailureReporter = {
+    suite: string;
+    /** Creates the CSV (with header) for the project if it does not exist yet and returns its path. */
+    ensureInitialized: (project: string) => string;
+    /** Appends the failure to the project CSV and returns the normalized record. */
+    record: (input: FailureInput) => AuditFailure;
+};
+
+export type FailureReporterOptions = {
+    /** Known-issue lookup; active matches are downgraded to 'acknowledged', expired ones keep their severity. */
+    resolveKnownIssue?: (failure: AuditFailure) => KnownIssueMatch | null;
+};
+
+export const FAILURE_REPORT_DIR = path.join(process.cwd(), 'failures');
+export const FAILURE_CSV_COLUMNS = [
+    'Project',
+    'Suite',
+    'Test ID',
+    'Category',
+    'Severity',
+    'Source URL',
+    'Target URL',
+    'Details',
+    'Known Issue',
+] as const;
+export const FAILURE_CSV_HEADER = `${FAILURE_CSV_COLUMNS.join(',')}\n`;
+/** Name of the per-failure JSON attachments picked up by the run summary reporter (reporters/auditSummaryReporter.ts). */
+export const AUDIT_FAILURES_ATTACHMENT = 'audit-failures.json';
+
+const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
+
+export function csvEscape(value: unknown): string {
+    if (value === null || value === undefined) return '""';
+    return `"${String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
+}
+
+export function toCsvRow(failure: AuditFailure): string {
+    return [
+        failure.project,
+        failure.suite,
+        failure.testId,
+        failure.category,
+        failure.severity,
+        failure.sourceUrl,
+        failure.targetUrl,
+        failure.details,
+        failure.knownIssue,
+    ]
+        .map(csvEscape)
+        .join(',');
+}
+
+export function getFailureCsvPath(project: string, suite: string): string {
+    const safeProject = project.replace(/[^a-z0-9.-]+/gi, '_');
+    return path.join(FAILURE_REPORT_DIR, `${safeProject}_${suite}_${RUN_TIMESTAMP}.csv`);
+}
+
+/**
+ * Pushes one JSON attachment per recorded failure, so the run summary reporter can aggregate soft
+ * failures across projects without parsing CSVs. Attachments reach the runner when they are pushed,
+ * so a single attachment rewritten in place would only ever report the first failure.
+ */
+/** Failures recorded outside a running test, e.g. by a reporter's onEnd; the run summary reporter collects them. */
+const failuresOutsideTests: AuditFailure[] = [];
+
+/** Returns and clears the failures recorded outside a running test in this process. */
+export function takeFailuresOutsideTests(): AuditFailure[] {
+    return failuresOutsideTests.splice(0);
+}
+
+function attachToCurrentTest(failure: AuditFailure) {
+    let testInfo: ReturnType<typeof test.info>;
+    try {
+        testInfo = test.info();
+    } catch {
+        // Recorded outside of a running test (module scope or a reporter): no attachment to carry it
+        failuresOutsideTests.push(failure);
+        return;
+    }
+
+    testInfo.attachments.push({
+        name: AUDIT_FAILURES_ATTACHMENT,
+        contentType: 'application/json',
+        body: Buffer.from(JSON.stringify(failure, null, 2), 'utf8'),
+    });
+}
+
+export function createFailureReporter(
+    suite: string,
+    defaultSeverity: FailureSeverity,
+    options: FailureReporterOptions = {}
+): FailureReporter {
+    const ensureInitialized = (project: string) => {
+        if (!fs.existsSync(FAILURE_REPORT_DIR)) {
+            fs.mkdirSync(FAILURE_REPORT_DIR, { recursive: true });
+        }
+        const csvPath = getFailureCsvPath(project, suite);
+        if (!fs.existsSync(csvPath)) {
+            fs.writeFileSync(csvPath, FAILURE_CSV_HEADER, { encoding: 'utf8' });
+            console.log(`[CSV] Initialized ${csvPath}`);
+        }
+        return csvPath;
+    };
+
+    const record = (input: FailureInput): AuditFailure => {
+        const failure: AuditFailure = {
+            project: input.project,
+            suite,
+            testId: input.testId,
+            category: input.category,
+            severity: input.severity ?? defaultSeverity,
+            sourceUrl: input.sourceUrl ?? '',
+            targetUrl: input.targetUrl ?? '',
+            details: input.details,
+            knownIssue: '',
+        };
+
+        const knownIssue = options.resolveKnownIssue?.(failure);
+        if (knownIssue && !knownIssue.expired) {
+            failure.severity = 'acknowledged';
+            failure.knownIssue = knownIssue.issue.id;
+        } else if (knownIssue) {
+            failure.knownIssue = `${knownIssue.issue.id} (expired ${knownIssue.issue.expires})`;
+            console.warn(`[${failure.project}] ⚠️ Known issue ${knownIssue.issue.id} expired on ${knownIssue.issue.expires} (owner: ${knownIssue.issue.owner}); reporting as ${failure.severity}.`);
+        }
+        const csvPath = ensureInitialized(failure.project);
+        fs.appendFileSync(csvPath, `${toCsvRow(failure)}\n`, { encoding: 'utf8' });
+        attachToCurrentTest(failure);
+        return failure;
+    };
+
+    return { suite, ensureInitialized, record };
+}
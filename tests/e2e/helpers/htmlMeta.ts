@@ -0,0 +1,73 @@
+// tests/e2e/helpers/htmlMeta.ts
+// Regex-based readers for page metadata in raw HTML (no browser needed): title, meta tags, canonical, H1, JSON-LD.
+
+export function readTagAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attrRegex = /([^\s=<>/]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g;
+    let match;
+    while ((match = attrRegex.exec(tag)) !== null) {
+        attributes[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? '';
+    }
+    return attributes;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const value = code[1].toLowerCase() === 'x' ? Number.parseInt(code.slice(2), 16) : Number.parseInt(code.slice(1), 10);
+            return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+/** Content of the first <meta> whose name (or property, for Open Graph) matches, decoded; null when absent. */
+export function findMetaContent(html: string, key: string): string | null {
+    const wanted = key.toLowerCase();
+    for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+        const attributes = readTagAttributes(tag);
+        if (attributes.name?.toLowerCase() === wanted || attributes.property?.toLowerCase() === wanted) {
+            return decodeHtmlEntities(attributes.content ?? '');
+        }
+    }
+    return null;
+}
+
+export function findMetaRobots(html: string): string | null {
+    return findMetaContent(html, 'robots');
+}
+
+export function findCanonical(html: string): string | null {
+    for (const tag of html.match(/<link\b[^>]*>/gi) ?? []) {
+        const attributes = readTagAttributes(tag);
+        if (attributes.rel?.toLowerCase().split(/\s+/).includes('canonical')) return attributes.href ? decodeHtmlEntities(attributes.href) : null;
+    }
+    return null;
+}
+
+/** Text of the document <title> (outside inline SVGs), whitespace-collapsed and decoded; null when absent. */
+export function findTitle(html: string): string | null {
+    const head = html.split(/<body\b/i)[0];
+    const match = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+    return match ? decodeHtmlEntities(match[1]).replace(/\s+/g, ' ').trim() : null;
+}
+
+/** Text of the first <h1>, tags stripped; null when the page has none. */
+export function findFirstH1(html: string): string | null {
+    const match = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+    if (!match) return null;
+    return decodeHtmlEntities(match[1].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/** Raw contents of every <script type="application/ld+json"> block, in document order. */
+export function findJsonLdScripts(html: string): string[] {
+    const scripts: string[] = [];
+    const scriptRegex = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+    let match;
+    while ((match = scriptRegex.exec(html)) !== null) {
+        if (readTagAttributes(match[1]).type?.toLowerCase() === 'application/ld+json') scripts.push(match[2]);
+    }
+    return scripts;
+}
@@ -0,0 +1,62 @@
+// tests/e2e/helpers/linkChecker.ts
+// HTTP status checks for link targets with bounded concurrency (HEAD first, GET when HEAD is refused or fails).
+
+import type { APIRequestContext } from '@playwright/test';
+
+export type LinkCheckResult = {
+    url: string;
+    /** Final status after redirects; 0 when the request failed */
+    status: number;
+    /** Set when the target is broken: HTTP >= 400 or a network error */
+    error?: string;
+    method: 'HEAD' | 'GET';
+};
+
+export type LinkCheckOptions = {
+    /** Requests in flight at once (defaults to 8) */
+    concurrency?: number;
+    /** Per-request timeout in ms (defaults to 20000) */
+    timeout?: number;
+};
+
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_TIMEOUT = 20_000;
+
+/** Runs worker over items with at most `limit` calls pending; results keep the input order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+    return results;
+}
+
+async function requestStatus(request: APIRequestContext, url: string, method: 'HEAD' | 'GET', timeout: number): Promise<LinkCheckResult> {
+    try {
+        const response = await request.fetch(url, { method, failOnStatusCode: false, timeout });
+        const status = response.status();
+        // Only the status is needed; drop the body so large pages are not kept in memory
+        await response.dispose();
+        return { url, status, method, error: status >= 400 ? `HTTP ${status}` : undefined };
+    } catch (error) {
+        return { url, status: 0, method, error: (error as Error).message.split('\n')[0] };
+    }
+}
+
+/** A target is only reported broken when the GET retry fails too (some servers reject or mishandle HEAD). */
+export async function checkLink(request: APIRequestContext, url: string, timeout: number = DEFAULT_TIMEOUT): Promise<LinkCheckResult> {
+    const head = await requestStatus(request, url, 'HEAD', timeout);
+    if (!head.error) return head;
+    return requestStatus(request, url, 'GET', timeout);
+}
+
+export async function checkLinks(request: APIRequestContext, urls: string[], options: LinkCheckOptions = {}): Promise<LinkCheckResult[]> {
+    const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    return mapWithConcurrency(urls, concurrency, (url) => checkLink(request, url, timeout));
+}
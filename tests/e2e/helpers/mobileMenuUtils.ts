@@ -1,28 +1,6 @@
 import { Page } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
 import { SiteName } from '../config/sites';
 
-export const BASE_REPORT_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-export const CSV_HEADER = 'Project,Test ID,Failure Type,Details,Failing URL\n';
-
-export function getCsvFailureFile(projectName: string) {
-    return path.join(BASE_REPORT_DIR, `${projectName}_p0-homepage-smoke-mobile_${RUN_TIMESTAMP}.csv`);
-}
-
-export function ensureCsvInitialized(projectName: string) {
-    if (!fs.existsSync(BASE_REPORT_DIR)) {
-        fs.mkdirSync(BASE_REPORT_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFailureFile(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-        console.log(`[CSV] Initialized ${csvPath}`);
-    }
-    return csvPath;
-}
-
 const COOKIE_DISMISS_SELECTORS: Partial<Record<SiteName, string[]>> = {
     beturi: ['#CybotCookiebotDialogBodyButtonDecline'],
     'casino.com.ro': ['#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll'],
@@ -273,11 +251,6 @@ export async function humanizePage(page: Page) {
     await page.waitForTimeout(Math.random() * 500 + 500);
 }
 
-export function csvEscape(str: string | null | undefined): string {
-    if (str === null || str === undefined) return '""';
-    return `"${String(str).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
-}
-
 export function buildAbsoluteUrl(baseURL: string, href: string | null | undefined): string {
     if (!href) return '';
     if (/^https?:\/\//i.test(href)) return href;
@@ -286,12 +259,6 @@ export function buildAbsoluteUrl(baseURL: string, href: string | null | undefine
     return href;
 }
 
-export function logFailureToCsv(projectName: string, testId: string, type: string, details: string, url: string) {
-    const csvRow = `${csvEscape(projectName)},${csvEscape(testId)},${csvEscape(type)},${csvEscape(details)},${csvEscape(url)}`;
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, csvRow + '\n', { encoding: 'utf8' });
-}
-
 export async function closeCookiePopupIfPresent(page: Page, siteName: SiteName): Promise<boolean> {
     const selectors = COOKIE_DISMISS_SELECTORS[siteName];
     if (!selectors?.length) {
@@ -337,3 +304,17 @@ export async function closeOptionalPopupIfPresent(page: Page, siteName: SiteName
 
     return false;
 }
+
+/** Opens the page and dismisses the popups. Returns the load error (HTTP status or navigation error), or null once loaded. */
+export async function openPageAndClosePopups(page: Page, siteName: SiteName, url: string): Promise<string | null> {
+    try {
+        const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 45000 });
+        const status = response?.status() ?? 0;
+        if (status < 200 || status >= 400) return `HTTP ${status}`;
+    } catch (error) {
+        return (error as Error).message.split('\n')[0];
+    }
+    await closeCookiePopupIfPresent(page, siteName);
+    await closeOptionalPopupIfPresent(page, siteName);
+    return null;
+}
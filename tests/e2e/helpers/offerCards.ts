@@ -0,0 +1,260 @@
+// tests/e2e/helpers/offerCards.ts
+// Reads the offer cards described in config/sites-casino-reviews.ts: casino name, data-position, DOM order
+// and the bonus details (headline, wagering, free spins, T&C link, 18+ notice).
+
+import type { Locator, Page } from '@playwright/test';
+import type { ExpectedOffer } from '../config/expectedOffers';
+import { DEFAULT_OFFER_DETAIL_SELECTORS, type CasinoNameStrategy, type OfferDetailSelectors } from '../config/sites-casino-reviews';
+
+export type OfferCard = {
+    /** 1-based position of the card in DOM order */
+    domPosition: number;
+    casinoName: string;
+    /** data-position of the card (or of its affiliate CTA), when the markup exposes it */
+    dataPosition: number | null;
+    /** href of the card's affiliate CTA */
+    ctaHref: string | null;
+    locator: Locator;
+};
+
+export const UNKNOWN_CASINO = 'unknown-casino';
+
+export async function extractCasinoName(card: Locator, strategy: CasinoNameStrategy): Promise<string> {
+    if (strategy.type === 'attribute') {
+        const source = card.locator(strategy.selector).first();
+        const attributeValue = await source.getAttribute(strategy.attribute);
+        if (attributeValue?.trim()) {
+            return attributeValue.trim();
+        }
+    } else {
+        const source = card.locator(strategy.selector).first();
+        let text = (await source.innerText()).trim();
+        if (strategy.removePrefixes) {
+            for (const prefix of strategy.removePrefixes) {
+                if (text.toLowerCase().startsWith(prefix.toLowerCase())) {
+                    text = text.slice(prefix.length).trim();
+                    break;
+                }
+            }
+        }
+        if (strategy.removeSuffixes) {
+            for (const suffix of strategy.removeSuffixes) {
+                if (text.toLowerCase().endsWith(suffix.toLowerCase())) {
+                    text = text.slice(0, -suffix.length).trim();
+                    break;
+                }
+            }
+        }
+        if (text) {
+            return text;
+        }
+    }
+
+    return UNKNOWN_CASINO;
+}
+
+async function readCardMeta(card: Locator): Promise<{ dataPosition: number | null; ctaHref: string | null }> {
+    return card.evaluate((node) => {
+        const positioned = node.hasAttribute('data-position') ? node : node.querySelector('[data-position]');
+        const rawPosition = positioned?.getAttribute('data-position')?.trim() ?? '';
+        const parsedPosition = Number.parseInt(rawPosition, 10);
+        const cta = node.querySelector('a.affiliate-meta-link, a[data-casino], a[data-casino-name]');
+        return {
+            dataPosition: Number.isNaN(parsedPosition) ? null : parsedPosition,
+            ctaHref: cta?.getAttribute('href') ?? null,
+        };
+    });
+}
+
+/** Every card matching the selector, in DOM order. */
+export async function collectOfferCards(page: Page, offerCardSelector: string, strategy: CasinoNameStrategy): Promise<OfferCard[]> {
+    const cards = page.locator(offerCardSelector);
+    const cardCount = await cards.count();
+    const offerCards: OfferCard[] = [];
+
+    for (let index = 0; index < cardCount; index++) {
+        const card = cards.nth(index);
+        const casinoName = await extractCasinoName(card, strategy).catch(() => UNKNOWN_CASINO);
+        const { dataPosition, ctaHref } = await readCardMeta(card);
+        offerCards.push({ domPosition: index + 1, casinoName, dataPosition, ctaHref, locator: card });
+    }
+
+    return offerCards;
+}
+
+export type OfferDetails = {
+    bonusHeadline: string | null;
+    /** Wagering multiplier ("rulaj x35" -> 35, "fără rulaj" -> 0), null when not stated on the card */
+    wageringRequirement: number | null;
+    /** Free spins count ("1.000 Rotiri Gratuite" -> 1000), null when not stated on the card */
+    freeSpins: number | null;
+    termsUrl: string | null;
+    hasAgeDisclaimer: boolean;
+    /** Term lines as shown on the card */
+    terms: string[];
+};
+
+const AGE_DISCLAIMER_PATTERN = /(^|[^\d])18\s?\+/;
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** Wagering multiplier from free text; 0 for "fără rulaj" / "no wagering". */
+export function parseWageringRequirement(text: string): number | null {
+    if (/f[aă]r[aă]\s+rulaj|no\s+wagering|wager[-\s]?free/i.test(text)) return 0;
+    const match =
+        text.match(/(?:rulaj(?:ul)?|wagering)(?:\s+(?:de|este|of))?\s*:?\s*x\s?(\d{1,3})(?!\d)/i) ??
+        text.match(/(?:rulaj(?:ul)?|wagering)(?:\s+(?:de|este|of))?\s*:?\s*(\d{1,3})\s?x(?![a-z])/i) ??
+        text.match(/(?:^|[^\w])x\s?(\d{1,3})\s+(?:rulaj|wagering)/i) ??
+        text.match(/(?:^|[^\w])(\d{1,3})\s?x\s+(?:rulaj|wagering)/i);
+    return match ? Number.parseInt(match[1], 10) : null;
+}
+
+/** Free spins count from free text ("1.000 Rotiri Gratuite", "200 Free Spins", "50 FS"). */
+export function parseFreeSpins(text: string): number | null {
+    const match = text.match(/(\d{1,3}(?:[.\s]\d{3})*|\d+)\s*(?:rotiri|free\s?spins|fs\b)/i);
+    return match ? Number.parseInt(match[1].replace(/[.\s]/g, ''), 10) : null;
+}
+
+export async function extractOfferDetails(card: Locator, selectors: OfferDetailSelectors = {}): Promise<OfferDetails> {
+    const resolved = { ...DEFAULT_OFFER_DETAIL_SELECTORS, ...selectors };
+
+    const headlineTexts = await card.locator(resolved.bonusHeadline).allInnerTexts().catch(() => [] as string[]);
+    const bonusHeadline = headlineTexts.map(normalizeText).find(Boolean) ?? null;
+    const terms = (await card.locator(resolved.terms).allInnerTexts().catch(() => [] as string[])).map(normalizeText).filter(Boolean);
+    const termsUrl = (await card.locator(resolved.termsLink).first().getAttribute('href', { timeout: 1000 }).catch(() => null))?.trim() || null;
+    const cardText = normalizeText(await card.textContent().catch(() => null) ?? '');
+    const hasAgeDisclaimer = (await card.locator(resolved.disclaimer).count().catch(() => 0)) > 0 || AGE_DISCLAIMER_PATTERN.test(cardText);
+
+    const offerText = [bonusHeadline ?? '', ...terms].join(' ');
+    return {
+        bonusHeadline,
+        wageringRequirement: parseWageringRequirement(offerText) ?? parseWageringRequirement(cardText),
+        freeSpins: parseFreeSpins(offerText),
+        termsUrl,
+        hasAgeDisclaimer,
+        terms,
+    };
+}
+
+/** Differences between the card and the expected offer, as human-readable issues (empty = matches). */
+export function validateOfferDetails(details: OfferDetails, expected: ExpectedOffer): string[] {
+    const issues: string[] = [];
+
+    if (expected.bonusHeadline !== undefined) {
+        const headline = details.bonusHeadline ?? '';
+        const matches =
+            expected.bonusHeadline instanceof RegExp
+                ? expected.bonusHeadline.test(headline)
+                : normalizeText(headline).toLowerCase().includes(normalizeText(expected.bonusHeadline).toLowerCase());
+        if (!matches) issues.push(`Bonus headline "${details.bonusHeadline ?? 'missing'}" does not match ${expected.bonusHeadline}`);
+    }
+    if (expected.freeSpins !== undefined && details.freeSpins !== expected.freeSpins) {
+        issues.push(`Free spins ${details.freeSpins ?? 'not shown'} (expected ${expected.freeSpins})`);
+    }
+    if (expected.wageringRequirement !== undefined && details.wageringRequirement !== null && details.wageringRequirement !== expected.wageringRequirement) {
+        issues.push(`Wagering x${details.wageringRequirement} (expected x${expected.wageringRequirement})`);
+    }
+    if (expected.requireTermsLink && !details.termsUrl) {
+        issues.push('T&C link missing');
+    }
+    if (expected.requireAgeDisclaimer && !details.hasAgeDisclaimer) {
+        issues.push('18+ disclaimer missing');
+    }
+
+    return issues;
+}
+
+/**
+ * Fallback ancestors treated as the offer card around a CTA when the site's offerCardSelector does not match.
+ * A match that wraps CTAs of several casinos is a list or page wrapper, not a card, and is ignored.
+ */
+export const GENERIC_OFFER_CARD_SELECTOR = '[class*="offer"]:not(a), .casino-item, [class*="casino-card"]';
+
+export const RESPONSIBLE_GAMBLING_PATTERN = /joc(?:ul)?\s+responsabil|joac[aă]\s+responsabil/i;
+const TERMS_LINK_HREF_PATTERN = /termeni|conditii|condiții|terms|[?&/]tc(?:[/?#=&]|$)|t-c(?:[/?#]|$)/i;
+const TERMS_LINK_TEXT_PATTERN = /T\s?&\s?C|termeni|condi[tț]ii|terms/i;
+
+export type CtaCardCompliance = {
+    /** 1-based DOM index of the card among the cards found on the page */
+    cardIndex: number;
+    casinoName: string | null;
+    ctaCount: number;
+    ctaHref: string | null;
+    hasAgeNotice: boolean;
+    hasResponsibleNotice: boolean;
+    termsHref: string | null;
+};
+
+/** Affiliate CTA with no enclosing offer card, so no notice or T&C link can sit next to it */
+export type LooseCta = {
+    casinoName: string | null;
+    href: string | null;
+};
+
+/**
+ * Groups every CTA matching ctaSelector by its enclosing offer card (closest offerCardSelector, then the generic
+ * card fallback) and reports which notices the card shows. CTAs outside any card are returned in looseCtas.
+ */
+export async function collectCtaCardCompliance(
+    page: Page,
+    ctaSelector: string,
+    offerCardSelector?: string,
+): Promise<{ cards: CtaCardCompliance[]; looseCtas: LooseCta[] }> {
+    return page.locator(ctaSelector).evaluateAll(
+        (nodes, patterns) => {
+            const agePattern = new RegExp(patterns.age);
+            const responsiblePattern = new RegExp(patterns.responsible, 'i');
+            const termsHrefPattern = new RegExp(patterns.termsHref, 'i');
+            const termsTextPattern = new RegExp(patterns.termsText, 'i');
+            const cardMap = new Map<Element, { ctas: Element[] }>();
+            const looseCtas: { casinoName: string | null; href: string | null }[] = [];
+            const casinoOf = (cta: Element) => cta.getAttribute('data-casino') || cta.getAttribute('data-casino-name') || null;
+            const wrapsSeveralCasinos = (candidate: Element) =>
+                new Set(nodes.filter((other) => candidate.contains(other)).map(casinoOf).filter(Boolean)).size > 1;
+
+            for (const node of nodes) {
+                const genericCard = node.closest(patterns.genericSelector);
+                const card =
+                    (patterns.cardSelector ? node.closest(patterns.cardSelector) : null) ??
+                    (genericCard && !wrapsSeveralCasinos(genericCard) ? genericCard : null);
+                if (!card) {
+                    looseCtas.push({ casinoName: casinoOf(node), href: node.getAttribute('href') });
+                    continue;
+                }
+                if (!cardMap.has(card)) cardMap.set(card, { ctas: [] });
+                cardMap.get(card)!.ctas.push(node);
+            }
+
+            const cards = [...cardMap.entries()].map(([card, { ctas }], index) => {
+                const text = (card.textContent || '').replace(/\s+/g, ' ');
+                const imageAlts = Array.from(card.querySelectorAll('img[alt], [aria-label], [title]'))
+                    .map((element) => `${element.getAttribute('alt') ?? ''} ${element.getAttribute('aria-label') ?? ''} ${element.getAttribute('title') ?? ''}`)
+                    .join(' ');
+                const termsLink = Array.from(card.querySelectorAll('a[href]')).find((anchor) => {
+                    if (ctas.includes(anchor) || anchor.classList.contains('affiliate-meta-link')) return false;
+                    return termsHrefPattern.test(anchor.getAttribute('href') || '') || termsTextPattern.test(anchor.textContent || '');
+                });
+                const firstCta = ctas[0];
+                return {
+                    cardIndex: index + 1,
+                    casinoName: casinoOf(firstCta),
+                    ctaCount: ctas.length,
+                    ctaHref: firstCta.getAttribute('href'),
+                    hasAgeNotice: agePattern.test(text) || agePattern.test(imageAlts) || card.querySelector('[class*="icon_18"], [class*="age-limit"], [class*="18plus"]') !== null,
+                    hasResponsibleNotice: responsiblePattern.test(text) || responsiblePattern.test(imageAlts),
+                    termsHref: termsLink?.getAttribute('href') ?? null,
+                };
+            });
+
+            return { cards, looseCtas };
+        },
+        {
+            cardSelector: offerCardSelector ?? null,
+            genericSelector: GENERIC_OFFER_CARD_SELECTOR,
+            age: AGE_DISCLAIMER_PATTERN.source,
+            responsible: RESPONSIBLE_GAMBLING_PATTERN.source,
+            termsHref: TERMS_LINK_HREF_PATTERN.source,
+            termsText: TERMS_LINK_TEXT_PATTERN.source,
+        },
+    );
+}
@@ -0,0 +1,163 @@
+// tests/e2e/helpers/structuredData.ts
+// JSON-LD parsing and validation: every block must parse, page types must expose their required schema.org
+// types, known types must carry their required properties, and names must match the page H1.
+
+import { REQUIRED_STRUCTURED_DATA, type StructuredDataPageType } from '../config/structuredData';
+import { findJsonLdScripts } from './htmlMeta';
+import { checkH1Content } from './mobileMenuUtils';
+
+export type JsonLdNode = Record<string, any>;
+
+export type JsonLdExtraction = {
+    blockCount: number;
+    parseErrors: string[];
+    /** Every object with an @type, nested ones and @graph members included */
+    nodes: JsonLdNode[];
+    /** Nodes by @id, to resolve Yoast-style { "@id": ... } references */
+    byId: Map<string, JsonLdNode>;
+};
+
+export type StructuredDataIssue = {
+    testId: string;
+    category: string;
+    details: string;
+};
+
+export function typesOf(node: JsonLdNode): string[] {
+    const type = node['@type'];
+    return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string');
+}
+
+function collectNodes(value: unknown, nodes: JsonLdNode[], byId: Map<string, JsonLdNode>) {
+    if (Array.isArray(value)) {
+        value.forEach((item) => collectNodes(item, nodes, byId));
+        return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const node = value as JsonLdNode;
+    if (node['@type'] !== undefined) {
+        nodes.push(node);
+        if (typeof node['@id'] === 'string') byId.set(node['@id'], node);
+    }
+    for (const child of Object.values(node)) collectNodes(child, nodes, byId);
+}
+
+export function extractJsonLd(html: string): JsonLdExtraction {
+    const scripts = findJsonLdScripts(html);
+    const extraction: JsonLdExtraction = { blockCount: scripts.length, parseErrors: [], nodes: [], byId: new Map() };
+
+    scripts.forEach((script, index) => {
+        const body = script.trim().replace(/^<!--|-->$/g, '').replace(/^\/\/\s*<!\[CDATA\[|\/\/\s*\]\]>$/g, '').trim();
+        try {
+            collectNodes(JSON.parse(body), extraction.nodes, extraction.byId);
+        } catch (error) {
+            extraction.parseErrors.push(`Block ${index + 1}: ${(error as Error).message}`);
+        }
+    });
+
+    return extraction;
+}
+
+/** Follows a { "@id": ... } reference to the full node when the page declares it. */
+function resolve(value: unknown, byId: Map<string, JsonLdNode>): any {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const ref = (value as JsonLdNode)['@id'];
+        if (typeof ref === 'string' && Object.keys(value as JsonLdNode).length === 1) return byId.get(ref) ?? value;
+    }
+    return value;
+}
+
+const asArray = (value: unknown): unknown[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+const hasValue = (value: unknown) => value !== undefined && value !== null && String(value).trim() !== '';
+
+/** Missing required properties of a node, by schema.org type ('' = all present). */
+function missingProperties(node: JsonLdNode, type: string, byId: Map<string, JsonLdNode>): string[] {
+    const missing: string[] = [];
+    switch (type) {
+        case 'Review': {
+            const itemReviewed = resolve(node.itemReviewed, byId);
+            if (!hasValue(itemReviewed?.name)) missing.push('itemReviewed.name');
+            if (!hasValue(resolve(node.reviewRating, byId)?.ratingValue)) missing.push('reviewRating.ratingValue');
+            if (!node.author) missing.push('author');
+            break;
+        }
+        case 'AggregateRating':
+            if (!hasValue(node.ratingValue)) missing.push('ratingValue');
+            if (!hasValue(node.reviewCount) && !hasValue(node.ratingCount)) missing.push('reviewCount|ratingCount');
+            break;
+        case 'FAQPage': {
+            const questions = asArray(node.mainEntity).map((entry) => resolve(entry, byId));
+            if (questions.length === 0) missing.push('mainEntity');
+            questions.forEach((question, index) => {
+                if (!hasValue(question?.name)) missing.push(`mainEntity[${index}].name`);
+                if (!hasValue(resolve(question?.acceptedAnswer, byId)?.text)) missing.push(`mainEntity[${index}].acceptedAnswer.text`);
+            });
+            break;
+        }
+        case 'BreadcrumbList': {
+            const items = asArray(node.itemListElement).map((entry) => resolve(entry, byId));
+            if (items.length === 0) missing.push('itemListElement');
+            items.forEach((item, index) => {
+                if (!hasValue(item?.position)) missing.push(`itemListElement[${index}].position`);
+                if (!hasValue(item?.name) && !hasValue(resolve(item?.item, byId)?.name)) missing.push(`itemListElement[${index}].name`);
+                // The current page (last crumb) may omit its URL
+                if (index < items.length - 1 && !item?.item) missing.push(`itemListElement[${index}].item`);
+            });
+            break;
+        }
+        case 'VideoGame':
+        case 'Game':
+            if (!hasValue(node.name)) missing.push('name');
+            break;
+    }
+    return missing;
+}
+
+export function validateStructuredData(pageType: StructuredDataPageType, pathname: string, extraction: JsonLdExtraction, h1: string | null): StructuredDataIssue[] {
+    const issues: StructuredDataIssue[] = [];
+    const { nodes, byId } = extraction;
+
+    for (const parseError of extraction.parseErrors) {
+        issues.push({ testId: 'SD.parse', category: 'JSON-LD Parse Error', details: parseError });
+    }
+
+    const presentTypes = new Set(nodes.flatMap(typesOf));
+    const requirements = pathname === '/' ? [] : REQUIRED_STRUCTURED_DATA[pageType];
+    for (const anyOf of requirements) {
+        if (!anyOf.some((type) => presentTypes.has(type))) {
+            issues.push({ testId: 'SD.required', category: 'Structured Data Type Missing', details: `${pageType} page has no ${anyOf.join(' / ')} (found: ${[...presentTypes].join(', ') || 'none'})` });
+        }
+    }
+
+    for (const node of nodes) {
+        for (const type of typesOf(node)) {
+            const missing = missingProperties(node, type, byId);
+            if (missing.length > 0) {
+                issues.push({ testId: 'SD.properties', category: 'Structured Data Property Missing', details: `${type}: missing ${missing.join(', ')}` });
+            }
+        }
+    }
+
+    // Names that must describe the page's main entity
+    if (h1) {
+        const mainEntityNames: { type: string; name: string }[] = [];
+        for (const node of nodes) {
+            const types = typesOf(node);
+            if (pageType === 'review' && types.includes('Review')) {
+                const name = resolve(node.itemReviewed, byId)?.name;
+                if (hasValue(name)) mainEntityNames.push({ type: 'Review.itemReviewed', name: String(name) });
+            }
+            if (pageType === 'slot' && (types.includes('VideoGame') || types.includes('Game')) && hasValue(node.name)) {
+                mainEntityNames.push({ type: types.join('/'), name: String(node.name) });
+            }
+        }
+        for (const { type, name } of mainEntityNames) {
+            if (!checkH1Content(name, h1)) {
+                issues.push({ testId: 'SD.h1', category: 'Structured Data Name Mismatch', details: `${type} name "${name}" does not match H1 "${h1}"` });
+            }
+        }
+    }
+
+    return issues;
+}
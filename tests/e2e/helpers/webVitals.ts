@@ -0,0 +1,229 @@
+// tests/e2e/helpers/webVitals.ts
+// Lab Core Web Vitals (LCP, CLS, INP, TBT, TTFB, FCP) from in-page PerformanceObservers, budget checks and a
+// per-project JSONL history (web-vitals/<project>-<device>.jsonl) for trend tracking. auditWebVitals runs the
+// homepage smoke H3 test body for either device.
+
+import * as fs from 'fs';
+import path from 'path';
+import { expect, test, type Page, type TestInfo } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { hasMeasuredWebVitalsBudget, resolveWebVitalsBudget, type WebVitalsBudget, type WebVitalsDevice } from '../config/webVitals';
+import type { FailureReporter } from './failureReporter';
+
+export const WEB_VITALS_DIR = process.env.WEB_VITALS_DIR
+    ? path.resolve(process.env.WEB_VITALS_DIR)
+    : path.join(process.cwd(), 'web-vitals');
+
+export type WebVitalsMetric = keyof WebVitalsBudget;
+
+/** Null when the browser does not expose the entry type or nothing was observed (e.g. no LCP candidate). */
+export type WebVitalsValues = Record<WebVitalsMetric, number | null>;
+
+export type WebVitalsSample = WebVitalsValues & {
+    url: string;
+    device: WebVitalsDevice;
+    capturedAt: string;
+};
+
+export type WebVitalsBreach = {
+    metric: WebVitalsMetric;
+    value: number;
+    budget: number;
+};
+
+/** Display units for logs and failure details */
+export const WEB_VITALS_UNITS: Record<WebVitalsMetric, string> = { lcp: 'ms', cls: '', inp: 'ms', tbt: 'ms', ttfb: 'ms', fcp: 'ms' };
+
+/** Long tasks only block the main thread for the part above 50 ms (Lighthouse TBT definition). */
+const LONG_TASK_BLOCKING_THRESHOLD = 50;
+/** Lets late LCP candidates, layout shifts and long tasks land before reading the observers. */
+const SETTLE_DELAY_MS = 3000;
+
+/**
+ * Registers the observers before any page script runs; must be called before page.goto.
+ * Observers are installed once per page and survive navigations (the init script re-runs per document).
+ */
+export async function installWebVitalsObservers(page: Page) {
+    await page.addInitScript((blockingThreshold: number) => {
+        const state = { lcp: null as number | null, cls: 0, inp: null as number | null, longTasks: [] as { start: number; duration: number }[], supported: [] as string[] };
+        (window as any).__webVitals = state;
+
+        const observe = (type: string, callback: (entries: any[]) => void, options: Record<string, unknown> = {}) => {
+            try {
+                new PerformanceObserver((list) => callback(list.getEntries())).observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+                state.supported.push(type);
+            } catch {
+                // Entry type not supported by this browser
+            }
+        };
+
+        observe('largest-contentful-paint', (entries) => {
+            const last = entries[entries.length - 1];
+            if (last) state.lcp = last.renderTime || last.startTime;
+        });
+        observe('layout-shift', (entries) => {
+            for (const entry of entries) if (!entry.hadRecentInput) state.cls += entry.value;
+        });
+        observe('event', (entries) => {
+            for (const entry of entries) {
+                if (entry.interactionId) state.inp = Math.max(state.inp ?? 0, entry.duration);
+            }
+        }, { durationThreshold: 16 });
+        observe('longtask', (entries) => {
+            for (const entry of entries) {
+                if (entry.duration > blockingThreshold) state.longTasks.push({ start: entry.startTime, duration: entry.duration });
+            }
+        });
+    }, LONG_TASK_BLOCKING_THRESHOLD);
+}
+
+/**
+ * Reads the metrics for the current document. A Tab key press gives INP one interaction to measure without
+ * clicking anything that could navigate or open a popup.
+ */
+export async function collectWebVitals(page: Page): Promise<WebVitalsValues> {
+    await page.waitForTimeout(SETTLE_DELAY_MS);
+    await page.keyboard.press('Tab').catch(() => undefined);
+    await page.waitForTimeout(500);
+
+    return page.evaluate((blockingThreshold: number) => {
+        const state = (window as any).__webVitals;
+        const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+        const fcpEntry = performance.getEntriesByName('first-contentful-paint')[0];
+        const fcp = fcpEntry ? fcpEntry.startTime : null;
+
+        let tbt: number | null = null;
+        if (state?.supported.includes('longtask')) {
+            tbt = (state.longTasks as { start: number; duration: number }[])
+                .filter((task) => fcp === null || task.start >= fcp)
+                .reduce((total, task) => total + task.duration - blockingThreshold, 0);
+        }
+
+        return {
+            lcp: state?.lcp ?? null,
+            cls: state?.supported.includes('layout-shift') ? state.cls : null,
+            inp: state?.inp ?? null,
+            tbt,
+            ttfb: navigation ? navigation.responseStart : null,
+            fcp,
+        };
+    }, LONG_TASK_BLOCKING_THRESHOLD);
+}
+
+export function findBudgetBreaches(values: WebVitalsValues, budget: WebVitalsBudget): WebVitalsBreach[] {
+    const breaches: WebVitalsBreach[] = [];
+    for (const metric of Object.keys(budget) as WebVitalsMetric[]) {
+        const value = values[metric];
+        if (value !== null && value > budget[metric]) breaches.push({ metric, value, budget: budget[metric] });
+    }
+    return breaches;
+}
+
+export function formatWebVital(metric: WebVitalsMetric, value: number | null): string {
+    if (value === null) return 'n/a';
+    return metric === 'cls' ? value.toFixed(3) : `${Math.round(value)}${WEB_VITALS_UNITS[metric]}`;
+}
+
+export function formatWebVitals(values: WebVitalsValues): string {
+    return (Object.keys(WEB_VITALS_UNITS) as WebVitalsMetric[]).map((metric) => `${metric.toUpperCase()} ${formatWebVital(metric, values[metric])}`).join(', ');
+}
+
+const safeProjectName = (project: string) => project.replace(/[^a-z0-9.-]+/gi, '_');
+
+function getHistoryPath(project: string, device: WebVitalsDevice): string {
+    return path.join(WEB_VITALS_DIR, `${safeProjectName(project)}-${device}.jsonl`);
+}
+
+/** Previous samples for the project and device, oldest first; unreadable lines are skipped. */
+export function loadWebVitalsHistory(project: string, device: WebVitalsDevice): WebVitalsSample[] {
+    const historyPath = getHistoryPath(project, device);
+    if (!fs.existsSync(historyPath)) return [];
+    const samples: WebVitalsSample[] = [];
+    for (const line of fs.readFileSync(historyPath, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            samples.push(JSON.parse(line) as WebVitalsSample);
+        } catch {
+            console.warn(`[Web Vitals] ⚠️ Skipping unreadable line in ${historyPath}`);
+        }
+    }
+    return samples;
+}
+
+/** Appends one JSON line per sample and returns the history file path. */
+export function appendWebVitalsHistory(project: string, device: WebVitalsDevice, samples: WebVitalsSample[]): string {
+    fs.mkdirSync(WEB_VITALS_DIR, { recursive: true });
+    const historyPath = getHistoryPath(project, device);
+    fs.appendFileSync(historyPath, samples.map((sample) => `${JSON.stringify(sample)}\n`).join(''), { encoding: 'utf8' });
+    return historyPath;
+}
+
+/** "LCP 2100ms (+300ms)" style deltas against the last recorded sample for the same URL. */
+export function describeTrend(sample: WebVitalsSample, history: WebVitalsSample[]): string | null {
+    const previous = [...history].reverse().find((entry) => entry.url === sample.url);
+    if (!previous) return null;
+    const deltas: string[] = [];
+    for (const metric of Object.keys(WEB_VITALS_UNITS) as WebVitalsMetric[]) {
+        const current = sample[metric];
+        const before = previous[metric];
+        if (current === null || before === null) continue;
+        const delta = current - before;
+        const formatted = metric === 'cls' ? delta.toFixed(3) : `${Math.round(delta)}${WEB_VITALS_UNITS[metric]}`;
+        deltas.push(`${metric.toUpperCase()} ${delta >= 0 ? '+' : ''}${formatted}`);
+    }
+    return `vs ${previous.capturedAt}: ${deltas.join(', ')}`;
+}
+
+/**
+ * H3: measures the homepage and the high-traffic pages against the project's budget for the device. Breaches are
+ * soft failures once the site has a measured budget (record-only until then); measurement errors always are.
+ * Samples are appended to the history even when budgets are breached.
+ */
+export async function auditWebVitals(page: Page, testInfo: TestInfo, device: WebVitalsDevice, failureReporter: FailureReporter) {
+    const siteName = testInfo.project.name as SiteName;
+    const config = siteConfigs[siteName];
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${siteName}`); }
+    const budget = resolveWebVitalsBudget(siteName, device);
+    const enforceBudget = hasMeasuredWebVitalsBudget(siteName, device);
+    if (!enforceBudget) {
+        console.log(`[${siteName}] ℹ️ No measured ${device} Web Vitals budget yet: breaches of the default budget are recorded, not failed.`);
+    }
+    const history = loadWebVitalsHistory(siteName, device);
+
+    const pageUrls = Array.from(new Set(['/', ...config.highTrafficPaths].map((pagePath) => new URL(pagePath, baseURL).toString())));
+    await installWebVitalsObservers(page);
+
+    const samples: WebVitalsSample[] = [];
+    for (const pageUrl of pageUrls) {
+        await test.step(`H3.1: Measure ${pageUrl}`, async () => {
+            try {
+                await page.goto(pageUrl, { waitUntil: 'load', timeout: 45000 });
+                const values = await collectWebVitals(page);
+                const sample: WebVitalsSample = { url: pageUrl, device, capturedAt: new Date().toISOString(), ...values };
+                samples.push(sample);
+
+                const trend = describeTrend(sample, history);
+                console.log(`[${siteName}] INFO: ${pageUrl} — ${formatWebVitals(values)}${trend ? ` (${trend})` : ''}`);
+
+                // Soft failures: every breach is recorded, the test only fails once all pages are measured
+                for (const breach of findBudgetBreaches(values, budget)) {
+                    const details = `${breach.metric.toUpperCase()} ${formatWebVital(breach.metric, breach.value)} exceeds budget ${formatWebVital(breach.metric, breach.budget)} (${device}).`;
+                    failureReporter.record({ project: siteName, testId: `H3.2 - ${breach.metric.toUpperCase()}`, category: 'Web Vitals Budget', details, sourceUrl: pageUrl, severity: enforceBudget ? 'major' : 'minor' });
+                    console.warn(`[${siteName}] ⚠️ ${details} ${pageUrl}`);
+                    if (enforceBudget) expect.soft(breach.value, `[${siteName}] H3.2: ${breach.metric.toUpperCase()} on ${pageUrl}`).toBeLessThanOrEqual(breach.budget);
+                }
+            } catch (error) {
+                const errorDetails = error instanceof Error ? error.message.split('\n')[0] : 'Unknown error.';
+                failureReporter.record({ project: siteName, testId: 'H3.1', category: 'Web Vitals Measurement', details: errorDetails, sourceUrl: pageUrl });
+                expect.soft(errorDetails, `[${siteName}] H3.1: Web Vitals could not be measured on ${pageUrl}`).toBe('');
+            }
+        });
+    }
+
+    if (samples.length > 0) {
+        const historyPath = appendWebVitalsHistory(siteName, device, samples);
+        console.log(`[${siteName}] INFO: ${samples.length} Web Vitals sample(s) appended to ${historyPath}`);
+    }
+    testInfo.attachments.push({ name: `${siteName}-web-vitals-${device}.json`, contentType: 'application/json', body: Buffer.from(JSON.stringify({ budget, samples }, null, 2), 'utf8') });
+}
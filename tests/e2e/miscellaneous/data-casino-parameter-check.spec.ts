@@ -5,25 +5,24 @@ import {
   closeOptionalPopupIfPresent,
 } from "../helpers/mobileMenuUtils";
 import * as fs from "fs";
-import path from "path";
-
-type CasinoAttributeRecord = {
-  attribute: "data-casino" | "data-casino-name";
-  value: string;
-  href: string;
-  text: string;
-  position: string | null;
-};
-
-type ProjectArchiveDump = {
-  archiveUrl: string;
-  totalButtonsDetected: number;
-  capturedAttributes: CasinoAttributeRecord[];
-};
+import {
+  CASINO_CTA_DATA_FILENAME,
+  CASINO_CTA_DATA_PATH,
+  CASINO_CTA_DUMP_ATTACHMENT,
+  readCasinoCtaData,
+  type CasinoAttributeRecord,
+  type ProjectArchiveDump,
+} from "../helpers/brandConsistency";
+import {
+  diffInventory,
+  formatInventoryDiff,
+  loadLatestSnapshot,
+  saveInventorySnapshot,
+} from "../helpers/ctaInventory";
 
 const CTA_ATTRIBUTE_KEYS = ["data-casino", "data-casino-name"] as const;
-const OUTPUT_FILENAME = "casino-cta-data.json";
-const OUTPUT_FILE_PATH = path.join(process.cwd(), OUTPUT_FILENAME);
+const OUTPUT_FILENAME = CASINO_CTA_DATA_FILENAME;
+const OUTPUT_FILE_PATH = CASINO_CTA_DATA_PATH;
 
 const CASINO_ARCHIVE_URLS: Record<SiteName, string> = {
   "casino.com.ro": "https://casino.com.ro/cazinouri/",
@@ -48,9 +47,11 @@ test.describe("Data Casino parameter collector", () => {
     const ctaLocator = await resolveCtaLocator(page, projectName);
     const totalButtonsDetected = await ctaLocator.count();
 
-    const capturedAttributes = totalButtonsDetected
+    // Every CTA, repeats included: the consistency report and the inventory need each slot
+    const allRecords = totalButtonsDetected
       ? await collectAttributeRecords(ctaLocator)
       : [];
+    const capturedAttributes = dedupeByValue(allRecords);
 
     console.log(
       `[${projectName}] Captured ${capturedAttributes.length} unique data attributes from ${totalButtonsDetected} CTA buttons.`,
@@ -61,6 +62,41 @@ test.describe("Data Casino parameter collector", () => {
       totalButtonsDetected,
       capturedAttributes,
     });
+    const dump: ProjectArchiveDump = {
+      archiveUrl,
+      totalButtonsDetected,
+      capturedAttributes: allRecords,
+    };
+    testInfo.attachments.push({
+      name: CASINO_CTA_DUMP_ATTACHMENT,
+      contentType: "application/json",
+      body: Buffer.from(JSON.stringify(dump, null, 2), "utf8"),
+    });
+
+    // Versioned inventory: diff against the previous run so ranking changes can be confirmed
+    const previousSnapshot = loadLatestSnapshot(projectName);
+    const snapshot = { ...dump, project: projectName, capturedAt: new Date().toISOString() };
+    const inventoryDiff = diffInventory(previousSnapshot, snapshot);
+    const snapshotPath = saveInventorySnapshot(snapshot);
+    const inventoryDiffText = formatInventoryDiff(inventoryDiff);
+    console.log(`[${projectName}] Saved CTA inventory snapshot to ${snapshotPath}.\n${inventoryDiffText}`);
+
+    testInfo.annotations.push({
+      type: "CTA inventory",
+      description: previousSnapshot
+        ? `${inventoryDiff.added.length} added, ${inventoryDiff.removed.length} removed, ${inventoryDiff.reranked.length} re-ranked since ${inventoryDiff.previousCapturedAt}`
+        : "First snapshot, nothing to compare",
+    });
+    testInfo.attachments.push({
+      name: `${projectName}-cta-inventory-diff`,
+      contentType: "application/json",
+      body: Buffer.from(JSON.stringify(inventoryDiff, null, 2), "utf8"),
+    });
+    testInfo.attachments.push({
+      name: `${projectName}-cta-inventory-diff.txt`,
+      contentType: "text/plain",
+      body: Buffer.from(inventoryDiffText, "utf8"),
+    });
 
     testInfo.attachments.push({
       name: `${projectName}-casino-cta-data`,
@@ -126,16 +162,21 @@ async function collectAttributeRecords(locator: Locator) {
         href,
         text: textContent,
         position,
+        dataCasino: node.getAttribute("data-casino")?.trim() || null,
+        dataCasinoName: node.getAttribute("data-casino-name")?.trim() || null,
       } satisfies CasinoAttributeRecord;
     });
   });
 
-  const filteredRecords = rawRecords.filter(
+  return rawRecords.filter(
     (record): record is CasinoAttributeRecord => record !== null,
   );
+}
 
+/** One record per attribute value, as in the casino-cta-data.json dump. */
+function dedupeByValue(records: CasinoAttributeRecord[]) {
   const uniqueRecords = new Map<string, CasinoAttributeRecord>();
-  for (const record of filteredRecords) {
+  for (const record of records) {
     if (!uniqueRecords.has(record.value)) {
       uniqueRecords.set(record.value, record);
     }
@@ -154,17 +195,5 @@ function persistProjectDump(projectName: SiteName, dump: ProjectArchiveDump) {
 }
 
 function readExistingOutput(): Record<string, ProjectArchiveDump> {
-  if (!fs.existsSync(OUTPUT_FILE_PATH)) {
-    return {} as Record<string, ProjectArchiveDump>;
-  }
-
-  try {
-    const raw = fs.readFileSync(OUTPUT_FILE_PATH, { encoding: "utf8" });
-    return JSON.parse(raw) as Record<string, ProjectArchiveDump>;
-  } catch (error) {
-    console.warn(
-      `[WARN] Failed to parse existing ${OUTPUT_FILENAME}. Recreating file. Error: ${error}`,
-    );
-    return {} as Record<string, ProjectArchiveDump>;
-  }
+  return readCasinoCtaData(OUTPUT_FILE_PATH);
 }
@@ -1,476 +1,25 @@
 // tests/e2e/p0-crawl-audit-mobile.spec.ts
 
-import { test, devices, type Browser, type Page, type Response } from "@playwright/test";
+import { test } from "@playwright/test";
 import { siteConfigs, type SiteName } from "../config/sites";
-import { crawlSite } from "../config/crawler";
-import * as fs from "fs"; // ⬅️ Reintroducing file system module
-import path from "path";
+import { findActiveSkip, matchAcknowledgedFailure } from "../config/knownIssues";
+import { crawlSite, recordCrawlCoverage, recordCrawlRun } from "../config/crawler";
+import { createFailureReporter } from "../helpers/failureReporter";
+import { compareWithBaseline, formatBaselineComparison, isRegressionOnlyMode } from "../helpers/failureBaseline";
+import { MOBILE_CONTEXT_OPTIONS, createAffiliateRedirectAuditor, recordPageAudit, openAuditPage, type SoftFailure } from "../helpers/affiliateRedirectAuditor";
 import "../helpers/inactivityWatchdog";
 
 // ✅ Force iPhone 13 mobile context for this spec
-const { defaultBrowserType: _ignored, ...iPhone13Descriptor } = devices["iPhone 13"];
-const BASE_MOBILE_CONTEXT_OPTIONS = {
-    ...iPhone13Descriptor,
-    locale: "ro-RO",
-    timezoneId: "Europe/Bucharest",
-    permissions: ["geolocation"],
-    ignoreHTTPSErrors: true,
-};
-test.use(BASE_MOBILE_CONTEXT_OPTIONS);
-
-// Define the structure for a soft failure (includes csvRow for logging)
-type SoftFailure = {
-  sourcePath: string;
-  ctaText: string;
-  reason: string;
-  details: any;
-  csvRow: string; // ⬅️ Reintroduced for logging
-};
-
-// Define REDIRECT_TIMEOUT globally
-const REDIRECT_TIMEOUT = 15000; // baseline cap for slow redirects
-const FAST_REDIRECT_TIMEOUT = 8000; // faster cap for well-behaved brands
-const CSV_FAILURE_DIR = path.join(process.cwd(), "failures");
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, "-");
-const CSV_HEADER = 'Project,Source Page,CTA Text,Issue Type,Details,Failing URL\n';
-
-function getCsvFilePath(projectName: SiteName) {
-    return path.join(
-        CSV_FAILURE_DIR,
-        `${projectName}_crawl-audit-mobile_${RUN_TIMESTAMP}.csv`,
-    );
-}
-
-function ensureCsvInitialized(projectName: SiteName) {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: "utf8" });
-        console.log(`[CSV] Initialized Crawl Audit Report: ${csvPath}`);
-    }
-    return csvPath;
-}
-
-function appendFailureRow(projectName: SiteName, csvRow: string) {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, csvRow + "\n", { encoding: "utf8" });
-}
-
-// Function to safely escape strings for CSV (Carried over from original script)
-function csvEscape(str: string | null | undefined) {
-    if (str === null || str === undefined) return '""';
-    return `"${String(str).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
-}
-
-function stripDiacritics(value: string) {
-  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
-}
-
-function normalizeUrlForMatch(url: string) {
-  const lowered = url.toLowerCase();
-  try {
-    return decodeURIComponent(lowered);
-  } catch {
-    return lowered;
-  }
-}
-
-const SLUG_STOP_TOKENS = new Set(["casino", "tc", "bn", "lc", "cp"]);
-const FAST_REDIRECT_TOKENS = new Set([
-  "napoleon",
-  "winmasters",
-  "win2",
-  "winner",
-  "fortuna",
-  "poker",
-  "superbet",
-  "12xbet",
-  "bilion",
-  "netbet",
-]);
-
-const ASSET_HOST_PATTERNS = [
-  /fonts\.googleapis\.com/i,
-  /fonts\.gstatic\.com/i,
-  /www\.googletagmanager\.com/i,
-  /googlesyndication\.com/i,
-  /doubleclick\.net/i,
-  /static\.cloudflareinsights\.com/i,
-  /www\.google-analytics\.com/i,
-  /connect\.facebook\.net/i,
-];
-
-function isIgnorableAssetUrl(url: string) {
-  try {
-    const { hostname } = new URL(url);
-    return ASSET_HOST_PATTERNS.some((pattern) => pattern.test(hostname));
-  } catch {
-    return false;
-  }
-}
-
-async function waitForAffiliateResponse(popup: Page, deadlineTs: number): Promise<Response> {
-  while (true) {
-    const remaining = deadlineTs - Date.now();
-    if (remaining <= 0) {
-      throw new Error("Timeout waiting for affiliate response");
-    }
-
-    const response = await popup.waitForResponse(
-      (r: Response) => r.url().startsWith("http"),
-      { timeout: remaining },
-    );
-
-    const candidateUrl = response.url();
-    if (isIgnorableAssetUrl(candidateUrl)) {
-      console.log(`[REDIRECT] Ignoring asset response: ${candidateUrl}`);
-      continue;
-    }
-
-    return response;
-  }
-}
-
-function extractSlugTokensFromPath(pathValue?: string | null): string[] {
-  if (!pathValue) return [];
-  const [pathname] = pathValue.split("?");
-  const segments = pathname.split("/").filter(Boolean);
-  if (segments.length === 0) return [];
-
-  const rawSlug = stripDiacritics(segments[segments.length - 1].toLowerCase());
-  if (!rawSlug) return [];
-
-  const rawTokens = rawSlug.split(/[^a-z0-9]+/).filter(Boolean);
-  const filteredTokens = rawTokens
-    .map((token) => token.trim())
-    .filter((token) => token.length >= 2 && !SLUG_STOP_TOKENS.has(token));
-
-  console.log(`[TOKENS] Extracted slug tokens: ${filteredTokens.join(", ")}`);
-  return Array.from(new Set(filteredTokens));
-}
-
-function resolveRedirectTimeout(slugTokens: string[]) {
-  return slugTokens.some((token) => FAST_REDIRECT_TOKENS.has(token))
-    ? FAST_REDIRECT_TIMEOUT
-    : REDIRECT_TIMEOUT;
-}
-
-async function humanDelay(page: Page, minMs: number = 500, maxMs: number = 2000): Promise<void> {
-  const delay = Math.floor(Math.random() * (maxMs - minMs + 1)) + minMs;
-  await page.waitForTimeout(delay);
-}
-
-async function removeWebdriverDetection(page: Page) {
-    await page.addInitScript(() => {
-        Object.defineProperty(navigator, "webdriver", { get: () => undefined });
-        const originalQuery = window.navigator.permissions.query;
-        window.navigator.permissions.query = (parameters) =>
-            parameters.name === "notifications"
-                ? Promise.resolve({ state: Notification.permission } as PermissionStatus)
-                : originalQuery(parameters);
-        Object.defineProperty(navigator, "plugins", { get: () => [1, 2, 3, 4, 5] });
-        Object.defineProperty(navigator, "languages", { get: () => ["ro-RO", "ro", "en-US", "en"] });
-    });
-}
-
-async function closeModalOrPopup(page: Page) {
-    const closeSelectors = [
-        "#newsletter-popup-close-button", ".close-modal-x", 'button:has-text("NU MULTUMESC")', 'div[aria-label="Close"]', 
-    ];
-    for (const selector of closeSelectors) {
-        try {
-            const closeButton = page.locator(selector).first();
-            if (await closeButton.isVisible({ timeout: 1000 })) {
-                await closeButton.click({ timeout: 5000, force: true });
-                console.log(`[BYPASS] Closed popup using selector: ${selector}`);
-                return true;
-            }
-        } catch (e) {
-            // Ignore errors
-        }
-    }
-    return false;
-}
-
-/**
- * 🛠️ CORE REDIRECTION AUDIT FUNCTION 
- * Runs the audit checks on a single page and tracks soft failures.
- */
-async function runPageAudit(
-    browser: Browser, 
-    projectName: SiteName, 
-    baseURL: string, 
-    currentPath: string, 
-    cfg: typeof siteConfigs[SiteName],
-    softFailures: SoftFailure[]
-) {
-    const testInfo = test.info(); 
-    const context = await browser.newContext({
-        ...BASE_MOBILE_CONTEXT_OPTIONS,
-        ignoreHTTPSErrors:
-            testInfo.project.use.ignoreHTTPSErrors ?? BASE_MOBILE_CONTEXT_OPTIONS.ignoreHTTPSErrors,
-    });
-    const auditPage = await context.newPage();
-
-    await removeWebdriverDetection(auditPage); 
-    const domListener = () => removeWebdriverDetection(auditPage).catch(() => {});
-    auditPage.on('domcontentloaded', domListener);
-    
-    try {
-      await test.step(`Audit Page: ${currentPath}`, async () => {
-        let pageElementCount = 0; 
-        
-        // 1. Navigate to the page
-        try {
-            await auditPage.setExtraHTTPHeaders({ 'Referer': baseURL + (cfg.startPaths[0] || "/"), });
-            await auditPage.goto(baseURL + currentPath, { waitUntil: "domcontentloaded", timeout: 30_000 });
-            await auditPage.waitForLoadState("domcontentloaded");
-        } catch (error: any) {
-            const reason = 'Page Load Failure';
-            const message = error?.message ?? String(error);
-            const csvDetail = `Page Load Failure: ${message}`;
-            const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape('Page Load')},${csvEscape('Page Load Failure')},${csvEscape(csvDetail)},${csvEscape(baseURL + currentPath)}`; // ⬅️ CSV Row Created
-            appendFailureRow(projectName, csvRow); // ⬅️ Logging to CSV
-
-            softFailures.push({ sourcePath: currentPath, ctaText: 'Page Load', reason: reason, details: { message: message }, csvRow: csvRow });
-            console.error(`[${projectName}] ❌ FAIL Page Load on ${currentPath}: ${message}`);
-            return; 
-        }
-
-        await closeModalOrPopup(auditPage); 
-        await humanDelay(auditPage, 500, 1000); 
-
-        // 2. LINK SCRAPING: Find ALL links and filter by URL pattern
-        const allLinks = auditPage.locator("a[href]");
-
-        const allLinkData = await allLinks.evaluateAll((nodes, options) => {
-            const affiliateUrlPattern = options.affiliateUrlPattern as RegExp;
-            const baseURL = options.baseURL as string; 
-
-            return nodes.map((n: Element) => {
-                const href = n.getAttribute("href");
-                
-                let path = href || "";
-                try {
-                    if (path.startsWith("http")) {
-                        const url = new URL(path);
-                        path = url.pathname + url.search;
-                    }
-                } catch { return null; }
-                
-                // Filter links that do not match the affiliate pattern
-                if (!path.startsWith("/") || !affiliateUrlPattern.test(path)) return null; 
-
-                const element = n as HTMLElement;
-                const normalize = (value?: string | null) => value ? value.trim().replace(/\s+/g, " ") : "";
-
-                let text = normalize(element.innerText || element.textContent);
-                if (!text) text = normalize(element.getAttribute("title"));
-                if (!text) text = normalize(element.getAttribute("aria-label"));
-                if (!text) {
-                    const imgWithAlt = element.querySelector("img[alt]");
-                    if (imgWithAlt) {
-                        text = normalize(imgWithAlt.getAttribute("alt"));
-                    }
-                }
-                if (!text) text = normalize(element.getAttribute("data-casino") || element.getAttribute("data-casino-name"));
-                if (!text) text = "No Text";
-                
-                return {
-                    href: href,
-                    hasClass: n.classList.contains("affiliate-meta-link"),
-                    hasDataCasino: n.hasAttribute("data-casino") || n.hasAttribute("data-casino-name"),
-                    hasTrackingAttributes: n.classList.contains("affiliate-meta-link") && (n.hasAttribute("data-casino") || n.hasAttribute("data-casino-name")),
-                    target: n.getAttribute("target"),
-                    text,
-                    selector: 'a[href="' + href + '"]',
-                    normalizedPath: path,
-                };
-            }).filter((item) => item !== null);
-        }, { affiliateUrlPattern: cfg.affiliateUrlPattern, baseURL: baseURL });
-
-        const dedupedLinkData = (() => {
-            const seen = new Set<string>();
-            return allLinkData.filter((item) => {
-                const key = item.normalizedPath || item.href || item.selector;
-                if (!key) return true;
-                if (seen.has(key)) return false;
-                seen.add(key);
-                return true;
-            });
-        })();
-        
-        const affiliateLinkCount = dedupedLinkData.length;
-        
-        if (affiliateLinkCount === 0) {
-            console.warn(`[${projectName}] ⚠️ WARN No affiliate links found matching pattern on ${currentPath}`);
-            return;
-        }
-        
-        // 3. Process CTA Data and Execute Audit
-        for (let i = 0; i < affiliateLinkCount; i++) {
-            const { href, target, text, hasTrackingAttributes, hasClass, hasDataCasino, selector, normalizedPath } = dedupedLinkData[i];
-            
-            pageElementCount++;
-            const ctaId = `LINK #${pageElementCount} (${text})`;
-            const slugTokens = extractSlugTokensFromPath(normalizedPath || href || "");
-            const redirectTimeoutMs = resolveRedirectTimeout(slugTokens);
-
-            // --- Preliminary Checks ---
-            let skipAudit: boolean = false; 
-
-            // FINALIZED BETANO SKIP: Targeted skip by Href
-            if (projectName === "casino.com.ro" && typeof href === "string" && href.toLowerCase().includes("betano")) {
-                console.log(`[${projectName}] ⚠️ SKIPPING Betano link to bypass known external stall.`);
-                continue; 
-            }
-
-            if (!hasTrackingAttributes) {
-                let missingDetails: string[] = [];
-                if (!hasClass) missingDetails.push(".affiliate-meta-link class");
-                if (!hasDataCasino) missingDetails.push("data-casino/data-casino-name");
-
-                const csvDetail = `Missing Attributes: ${missingDetails.join(", ")}`;
-                const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Tracking Attribute Missing")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                appendFailureRow(projectName, csvRow);
-
-                softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: "Missing Tracking Attributes (Business Logic)", details: csvDetail, csvRow: csvRow });
-                console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: Missing Attributes: ${missingDetails.join(", ")}`);
-                skipAudit = true;
-            }
-
-            if (target !== "_blank" && !skipAudit) {
-                const csvDetail = `Missing target="_blank"`;
-                const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Target Blank Missing")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                appendFailureRow(projectName, csvRow);
-
-                softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: "Target Blank Missing", details: csvDetail, csvRow: csvRow });
-                console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: Target Blank Missing`);
-            }
-
-            if (typeof href === "string" && !skipAudit) {
-                let popup: Page | undefined;
-
-                try {
-                    const redirectDeadline = Date.now() + redirectTimeoutMs;
-
-                    const [newPopup] = await Promise.all([
-                        auditPage.waitForEvent("popup", { timeout: REDIRECT_TIMEOUT }),
-                        auditPage.evaluate((s) => {
-                            const element = document.querySelector(s);
-                            if (element) { (element as HTMLAnchorElement).click(); }
-                        }, selector),
-                    ]);
-
-                    popup = newPopup;
-
-                    const response = await waitForAffiliateResponse(popup, redirectDeadline);
-
-                    const navigationTimeout = Math.min(redirectTimeoutMs, Math.max(500, redirectDeadline - Date.now()));
-                    await popup.waitForNavigation({ waitUntil: "domcontentloaded", timeout: navigationTimeout }).catch(() => null);
-
-                    const request = response.request();
-                    const chain: any = (request as any).redirectChain;
-                    const internalRequest = Array.isArray(chain) && chain.length > 0 ? chain[0] : null;
-
-                    if (internalRequest) {
-                        const internalResponse = await internalRequest.response();
-                        if (internalResponse && internalResponse.status() === 404) {
-                            const csvDetail = `Internal tracking link returned 404. URL: ${internalRequest.url()}`;
-                            const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Internal Redirect 404")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                            appendFailureRow(projectName, csvRow);
-
-                            softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: "Internal Redirect 404", details: csvDetail, csvRow: csvRow });
-                            console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: Internal Redirect 404`);
-                        }
-                    }
-
-                    const finalUrl = popup.url() || response.url();
-                    const finalOrigin = new URL(finalUrl).origin;
-                    const projectOrigin = new URL(baseURL).origin;
-
-                    if (finalOrigin === projectOrigin) {
-                        const csvDetail = `Redirection failed to leave domain. Final URL: ${finalUrl}`;
-                        const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Final URL is Internal")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                        appendFailureRow(projectName, csvRow);
-
-                        softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: "Final URL is Internal", details: csvDetail, csvRow: csvRow });
-                        console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: Final URL is Internal - ${finalUrl}`);
-                    } else {
-                        if (slugTokens.length > 0) {
-                            const normalizedFinalUrl = normalizeUrlForMatch(finalUrl);
-                            const matchedToken = slugTokens.find((token) => normalizedFinalUrl.includes(token));
-
-                            if (!matchedToken) {
-                                const csvDetail = `Slug tokens (${slugTokens.join(', ')}) missing from redirect URL: ${finalUrl}`;
-                                const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Redirect Brand Mismatch")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                                appendFailureRow(projectName, csvRow);
-
-                                softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: "Redirect Brand Mismatch", details: csvDetail, csvRow: csvRow });
-                                console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: Redirect Brand Mismatch - ${csvDetail}`);
-                                continue;
-                            }
-
-                            console.log(`[${projectName}] ✅ PASS ${ctaId} from ${currentPath} -> Redirected to ${finalOrigin} (matched token: "${matchedToken}")`);
-                        } else {
-                            console.log(`[${projectName}] ✅ PASS ${ctaId} from ${currentPath} -> Redirected to ${finalOrigin}`);
-                        }
-                    }
-
-                } catch (error: any) {
-                    let finalUrlOnTimeout: string | null = null;
-                    if (popup) {
-                        try { finalUrlOnTimeout = popup.url() || ""; } catch {}
-                    }
-
-                    const reason = error.message.includes("Timeout")
-                        ? `Redirect Timeout (> ${REDIRECT_TIMEOUT / 1000}s)`
-                        : `Click/Monitor Error: ${error.message}`;
-
-                    if (finalUrlOnTimeout && finalUrlOnTimeout.startsWith("http")) {
-                        try {
-                            const timeoutOrigin = new URL(finalUrlOnTimeout).origin;
-                            const projectOrigin = new URL(baseURL).origin;
-
-                            if (timeoutOrigin !== projectOrigin) {
-                                if (popup) { await popup.close().catch(() => {}); }
-                                console.log(`[${projectName}] ✅ PASS ${ctaId} from ${currentPath} -> Bypassed WAF/Error to ${timeoutOrigin}`);
-                                continue;
-                            }
-                        } catch {}
-                    }
-
-                    const logError = error.message.includes("Timeout") ? "Redirect Timeout" : reason;
-                    const csvDetail = `Error: ${logError}. Message: ${error.message}`;
-                    const csvRow = `${csvEscape(projectName)},${csvEscape(currentPath)},${csvEscape(text ?? '')},${csvEscape("Redirection Failure")},${csvEscape(csvDetail)},${csvEscape(href ?? 'N/A')}`;
-                    appendFailureRow(projectName, csvRow);
-
-                    softFailures.push({ sourcePath: currentPath, ctaText: ctaId, reason: logError, details: csvDetail, csvRow: csvRow });
-                    console.error(`[${projectName}] ❌ FAIL ${ctaId} from ${currentPath}: ${logError}`);
-
-                } finally {
-                    if (popup) {
-                        try { if (!popup.isClosed()) await popup.close().catch(() => {}); } catch {}
-                    }
-                }
-            }
-        }
-    });
-    } finally {
-        auditPage.off('domcontentloaded', domListener);
-        await context.close();
-    }
-}
+test.use(MOBILE_CONTEXT_OPTIONS);
 
+const failureReporter = createFailureReporter("p0-crawl-audit-mobile", "critical", { resolveKnownIssue: matchAcknowledgedFailure });
 
 test("P0 - Crawl CTA Audit (Redirect Chain Check)", async ({ browser }, testInfo) => { 
  
     test.setTimeout(120 * 60 * 1000); 
 
     const projectName = testInfo.project.name as SiteName;
-    ensureCsvInitialized(projectName);
+    failureReporter.ensureInitialized(projectName);
 
     console.log(`\n[${projectName}] Starting redirect chain crawl audit.`);
     const cfg = siteConfigs[projectName];
@@ -480,54 +29,106 @@ test("P0 - Crawl CTA Audit (Redirect Chain Check)", async ({ browser }, testInfo
     const baseURL = projectBaseURL;
     
     const softFailures: SoftFailure[] = [];
+    // Resolve CTA redirects over HTTP; only JS-driven or WAF-blocked redirects open a popup
+    const auditor = createAffiliateRedirectAuditor(browser, "mobile", { projectName, baseURL, cfg, redirectMode: "request" });
     
     // CRITICAL FIX: Apply anti-detection script to the MAIN page fixture 
     // and ensure it runs on every navigation during the crawl!
-    const crawlContext = await browser.newContext(BASE_MOBILE_CONTEXT_OPTIONS);
-    const crawlPage = await crawlContext.newPage();
-    await removeWebdriverDetection(crawlPage); 
-    crawlPage.on('domcontentloaded', () => removeWebdriverDetection(crawlPage).catch(() => {})); // Listener for persistent injection
+    const { page: crawlPage, context: crawlContext } = await openAuditPage(browser, "mobile");
 
     // --- 1. CRAWL THE PROJECT ---
     console.log(`[${projectName}] Starting crawl up to maxPages: ${cfg.maxPages}`);
-    const { discoveredUrls } = await crawlSite(
+    const { discoveredUrls, startedAt, strategy, seed, selectionFile, replayed, replaySkipReason, sitemapUrls, sitemapIssues } = await crawlSite(
         crawlPage, // Use the main page fixture with the persistent anti-detection script
         baseURL, 
-        cfg
+        cfg,
+        { siteName: projectName, suite: failureReporter.suite }
     );
+    // CRAWL_REPLAY=<file> of another site: only the site that owns the selection is replayed
+    if (replaySkipReason) {
+        await crawlContext.close();
+        test.skip(true, replaySkipReason);
+    }
     
     // Use discoveredUrls as the list of paths to audit
     const pathsToAudit = discoveredUrls;
 
-    console.log(`[${projectName}] Crawl finished. Found ${pathsToAudit.length} unique pages to audit.`);
-    await crawlContext.close();
+    console.log(`[${projectName}] Crawl finished. Found ${pathsToAudit.length} unique pages to audit (strategy: ${strategy}, seed: ${seed}${replayed ? ", replayed" : ""}).`);
+    testInfo.annotations.push({ type: "Crawl Seed", description: `${seed} (${strategy})${selectionFile ? ` — selection: ${selectionFile}` : ""}` });
+
+    // Unreachable, malformed or empty sitemaps are audit failures, not just an empty crawl
+    for (const issue of sitemapIssues) {
+        const failureRecord = failureReporter.record({
+            project: projectName,
+            testId: "Sitemap",
+            category: issue.reason,
+            details: issue.details,
+            sourceUrl: issue.sitemapUrl,
+        });
+        softFailures.push({ sourcePath: issue.sitemapUrl, ctaText: "Sitemap", reason: issue.reason, details: issue.details, record: failureRecord });
+        console.error(`[${projectName}] ❌ FAIL ${issue.reason} in ${issue.sitemapUrl}: ${issue.details}`);
+    }
     await crawlContext.close();
 
     // --- 2. AUDIT EACH DISCOVERED PATH ---
     for (const currentPath of pathsToAudit) {
-        // Check if the current page should be entirely skipped (e.g., if it's in sites.ts skippedPaths)
-        if (cfg.skippedPaths && cfg.skippedPaths.includes(currentPath)) {
-            console.log(`[${projectName}] ⚠️ SKIPPING known unstable page: ${currentPath}`);
+        // Skip pages registered as known issues (config/knownIssues.ts)
+        const pageSkip = findActiveSkip(projectName, { sourcePath: currentPath });
+        if (pageSkip) {
+            console.log(`[${projectName}] ⚠️ SKIPPING known unstable page: ${currentPath} (${pageSkip.id}: ${pageSkip.reason})`);
             continue; // Skip to the next path
         }
         
         // Run the core audit logic for the discovered page
-        await runPageAudit(browser, projectName, baseURL, currentPath, cfg, softFailures);
+        const pageResult = await auditor.auditPath(currentPath);
+        softFailures.push(...recordPageAudit(pageResult, failureReporter, { projectName, baseURL }));
     }
 
+    // Rotating coverage: mark this batch as audited and report how much of the sitemap the cycle has covered
+    if (strategy === "rotating") {
+        const coverage = recordCrawlCoverage(projectName, pathsToAudit, failureReporter.suite);
+        if (coverage) {
+            console.log(`[${projectName}] Crawl coverage: cycle ${coverage.cycle}, ${coverage.auditedCount}/${coverage.eligibleCount} eligible URLs audited (${coverage.percent}%).`);
+            testInfo.annotations.push({ type: "Crawl Coverage", description: `Cycle ${coverage.cycle}: ${coverage.percent}% (${coverage.auditedCount}/${coverage.eligibleCount})` });
+        }
+    }
+    // Only a finished audit counts as the last run of the 'recent' strategy
+    if (!replayed) {
+        recordCrawlRun(projectName, startedAt, failureReporter.suite);
+    }
+
+    // Per-hop redirect chains of every audited CTA
+    auditor.attachRedirectChains();
+
+    // Failures matching an active known issue stay in the CSV as "acknowledged" but do not fail the audit
+    const activeFailures = softFailures.filter((f) => f.record.severity !== "acknowledged");
+    if (activeFailures.length < softFailures.length) {
+        console.log(`[${projectName}] ℹ️ ${softFailures.length - activeFailures.length} failure(s) acknowledged via the known-issue registry.`);
+    }
+
+    // Regression diff against the previous run (new / persisting / resolved)
+    const regression = compareWithBaseline(projectName, failureReporter.suite, activeFailures.map((f) => f.record), { auditedSourcePaths: [...pathsToAudit, ...sitemapUrls] });
+    console.log(`[${projectName}] Baseline diff: ${formatBaselineComparison(regression)}`);
+    testInfo.attachments.push({ name: "Baseline Diff", contentType: "application/json", body: Buffer.from(JSON.stringify(regression, null, 2), "utf8") });
+
     // Final Reporting (JSON Attachment)
-    if (softFailures.length > 0) {
-        console.error(`\n[${projectName}] AUDIT FAILED: ${softFailures.length} total failures found.`);
+    if (activeFailures.length > 0) {
+        console.error(`\n[${projectName}] AUDIT FAILED: ${activeFailures.length} total failures found.`);
         
-        const failureString = JSON.stringify(softFailures, null, 2);
-        testInfo.attachments.push({ name: `❌ CTA Crawl Audit Failures (${softFailures.length} total)`, contentType: "application/json", body: Buffer.from(failureString, "utf8") });
-        testInfo.annotations.push({ type: "Audit Failures", description: `${softFailures.length} audit failures found. Check attachment.`, });
+        const failureString = JSON.stringify(activeFailures, null, 2);
+        testInfo.attachments.push({ name: `❌ CTA Crawl Audit Failures (${activeFailures.length} total)`, contentType: "application/json", body: Buffer.from(failureString, "utf8") });
+        testInfo.annotations.push({ type: "Audit Failures", description: `${activeFailures.length} audit failures found. Check attachment.`, });
         
-        // Fail the Playwright test explicitly on soft failures
-        throw new Error(`Crawl audit failed with ${softFailures.length} CTA redirection issues.`);
+        // Fail the Playwright test explicitly on soft failures (only on new ones in regression-only mode)
+        if (!isRegressionOnlyMode()) {
+            throw new Error(`Crawl audit failed with ${activeFailures.length} CTA redirection issues.`);
+        }
+        if (regression.newFailures.length > 0) {
+            throw new Error(`Crawl audit found ${regression.newFailures.length} new CTA redirection issues (${activeFailures.length} total).`);
+        }
     }
 
-    console.log(`\n[${projectName}] ✅ Crawl Audit Completed. Failures: ${softFailures.length}.`);
+    console.log(`\n[${projectName}] ✅ Crawl Audit Completed. Failures: ${activeFailures.length}.`);
 });
 
 
@@ -0,0 +1,115 @@
+// tests/e2e/monthly/p1-broken-links-desktop.spec.ts
+// Site-wide internal broken-link audit: collects every internal <a href> on the crawl selection and the
+// high-traffic pages, checks each unique target once (bounded concurrency) and reports broken targets
+// with every page that links to them.
+
+import { test } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { crawlSite } from '../config/crawler';
+import { createFailureReporter, type AuditFailure } from '../helpers/failureReporter';
+import { checkLinks } from '../helpers/linkChecker';
+import { closeCookiePopupIfPresent } from '../helpers/mobileMenuUtils';
+import '../helpers/inactivityWatchdog';
+
+const failureReporter = createFailureReporter('p1-broken-links-desktop', 'major');
+
+/** Parallel link checks (BROKEN_LINK_CONCURRENCY overrides). */
+const CONCURRENCY = Number(process.env.BROKEN_LINK_CONCURRENCY) || 8;
+/** Source pages listed per broken target in the CSV details (the JSON attachment keeps all of them). */
+const MAX_SOURCES_IN_DETAILS = 10;
+
+const hostKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+type BrokenLink = {
+    targetUrl: string;
+    status: number;
+    error: string;
+    sourcePages: string[];
+};
+
+test('P1 - Internal Broken Links', async ({ page, request }, testInfo) => {
+    test.setTimeout(120 * 60 * 1000);
+
+    const projectName = testInfo.project.name as SiteName;
+    const cfg = siteConfigs[projectName];
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${projectName}`); }
+    failureReporter.ensureInitialized(projectName);
+    const siteHost = hostKey(new URL(baseURL).hostname);
+
+    // --- 1. Source pages: high-traffic pages plus the crawl selection (no siteName: crawl audit state untouched) ---
+    const { discoveredUrls } = await test.step('Select crawl pages', () => crawlSite(page, baseURL, cfg));
+    const sourcePages = Array.from(new Set([...cfg.highTrafficPaths, ...discoveredUrls].map((pagePath) => new URL(pagePath, baseURL).toString())));
+
+    // --- 2. Collect internal links: target -> pages linking to it ---
+    const failures: AuditFailure[] = [];
+    const sourcesByTarget = new Map<string, Set<string>>();
+    await test.step(`Collect internal links on ${sourcePages.length} page(s)`, async () => {
+        let popupsHandled = false;
+        for (const sourceUrl of sourcePages) {
+            let hrefs: string[];
+            try {
+                const response = await page.goto(sourceUrl, { waitUntil: 'domcontentloaded', timeout: 30_000 });
+                const status = response?.status() ?? 0;
+                if (status >= 400) {
+                    failures.push(failureReporter.record({ project: projectName, testId: 'BL.source', category: 'Source Page Error Status', details: `HTTP ${status}`, sourceUrl }));
+                    continue;
+                }
+                if (!popupsHandled) {
+                    await closeCookiePopupIfPresent(page, projectName);
+                    popupsHandled = true;
+                }
+                hrefs = await page.locator('a[href]').evaluateAll((nodes) => nodes.map((n) => (n as HTMLAnchorElement).href));
+            } catch (error) {
+                failures.push(failureReporter.record({ project: projectName, testId: 'BL.source', category: 'Source Page Load Failure', details: (error as Error).message.split('\n')[0], sourceUrl }));
+                continue;
+            }
+
+            for (const href of hrefs) {
+                let url: URL;
+                try { url = new URL(href); } catch { continue; }
+                if (!/^https?:$/.test(url.protocol) || hostKey(url.hostname) !== siteHost) continue;
+                // Affiliate redirects are covered by the CTA audits
+                if (cfg.affiliateUrlPattern.test(url.pathname)) continue;
+                url.hash = '';
+                const target = url.toString();
+                if (!sourcesByTarget.has(target)) sourcesByTarget.set(target, new Set());
+                sourcesByTarget.get(target)!.add(sourceUrl);
+            }
+        }
+        console.log(`[${projectName}] Collected ${sourcesByTarget.size} unique internal link target(s).`);
+    });
+
+    // --- 3. Check each unique target once ---
+    const brokenLinks: BrokenLink[] = [];
+    await test.step(`Check ${sourcesByTarget.size} link target(s) (concurrency ${CONCURRENCY})`, async () => {
+        const results = await checkLinks(request, [...sourcesByTarget.keys()], { concurrency: CONCURRENCY });
+        for (const result of results) {
+            if (!result.error) continue;
+            const sources = [...sourcesByTarget.get(result.url)!].sort();
+            brokenLinks.push({ targetUrl: result.url, status: result.status, error: result.error, sourcePages: sources });
+        }
+    });
+
+    brokenLinks.sort((a, b) => b.sourcePages.length - a.sourcePages.length || a.targetUrl.localeCompare(b.targetUrl));
+    for (const broken of brokenLinks) {
+        const listed = broken.sourcePages.slice(0, MAX_SOURCES_IN_DETAILS).join(', ');
+        const more = broken.sourcePages.length > MAX_SOURCES_IN_DETAILS ? ` (+${broken.sourcePages.length - MAX_SOURCES_IN_DETAILS} more)` : '';
+        failures.push(failureReporter.record({
+            project: projectName,
+            testId: 'BL.target',
+            category: broken.status ? `Broken Internal Link (HTTP ${broken.status})` : 'Broken Internal Link (Unreachable)',
+            details: `${broken.error}. Linked from ${broken.sourcePages.length} page(s): ${listed}${more}`,
+            sourceUrl: broken.sourcePages[0],
+            targetUrl: broken.targetUrl,
+        }));
+        console.error(`[${projectName}] ❌ ${broken.targetUrl} — ${broken.error} (linked from ${broken.sourcePages.length} page(s))`);
+    }
+
+    testInfo.attachments.push({ name: `${projectName}-broken-links.json`, contentType: 'application/json', body: Buffer.from(JSON.stringify(brokenLinks, null, 2), 'utf8') });
+
+    if (failures.length > 0) {
+        throw new Error(`Broken-link audit found ${brokenLinks.length} broken target(s) and ${failures.length - brokenLinks.length} source page failure(s). Check CSV for details.`);
+    }
+    console.log(`[${projectName}] ✅ No broken internal links across ${sourcePages.length} page(s).`);
+});
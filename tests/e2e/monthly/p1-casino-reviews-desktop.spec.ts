@@ -1,18 +1,17 @@
-import { expect, Locator, Page, test } from '@playwright/test';
+import { expect, Page, test } from '@playwright/test';
 import {
     casinoReviewSiteConfigs,
     CasinoReviewSiteConfig,
     CasinoReviewSiteName,
-    CasinoNameStrategy,
 } from '../config/sites-casino-reviews';
 import {
     buildAbsoluteUrl,
     checkH1Content,
     closeCookiePopupIfPresent,
     closeOptionalPopupIfPresent,
-    ensureCsvInitialized,
-    logFailureToCsv,
 } from '../helpers/mobileMenuUtils';
+import { createFailureReporter } from '../helpers/failureReporter';
+import { extractCasinoName } from '../helpers/offerCards';
 import '../helpers/inactivityWatchdog';
 
 type ReviewLinkTarget = {
@@ -37,6 +36,8 @@ const INFO_MARK = '🔍';
 const PASS_MARK = '✅';
 const FAIL_MARK = '❌';
 
+const failureReporter = createFailureReporter('p1-casino-reviews-desktop', 'major');
+
 test.describe('P1 Monthly • Casino Review Cards • Desktop', () => {
     test(`${TEST_ID}: Offer card review links stay healthy and match casino H1`, async ({ page }, testInfo) => {
         const currentProject = testInfo.project.name as CasinoReviewSiteName | undefined;
@@ -56,7 +57,7 @@ test.describe('P1 Monthly • Casino Review Cards • Desktop', () => {
             throw new Error(`Project ${currentProject} is missing a baseURL in Playwright config.`);
         }
 
-        ensureCsvInitialized(currentProject);
+        failureReporter.ensureInitialized(currentProject);
         const softFailures: string[] = [];
 
         await navigateToOfferPage(page, baseURL, currentProject, siteConfig);
@@ -97,7 +98,13 @@ async function navigateToOfferPage(
     const response = await page.goto(targetUrl, { waitUntil: 'domcontentloaded' });
     const status = response?.status() ?? 0;
     if (status < 200 || status >= 400) {
-        logFailureToCsv(siteName, `${TEST_ID}.0`, 'Initial navigation failed', `Status: ${status}`, targetUrl);
+        failureReporter.record({
+            project: siteName,
+            testId: `${TEST_ID}.0`,
+            category: 'Initial navigation failed',
+            details: `Status: ${status}`,
+            sourceUrl: targetUrl,
+        });
         logFailure(`[${siteName}] Unable to load offer page ${targetUrl}. HTTP ${status}`);
         throw new Error(`[${siteName}] Failed to load offer page (${targetUrl}). HTTP ${status}`);
     }
@@ -131,13 +138,13 @@ async function collectReviewTargets(
             const anchorText = (await link.innerText()).trim();
 
             if (!href) {
-                logFailureToCsv(
-                    siteName,
-                    `${TEST_ID}.collect`,
-                    'Missing href on review link',
-                    `Card ${cardIndex + 1} link ${linkIndex + 1}`,
-                    page.url(),
-                );
+                failureReporter.record({
+                    project: siteName,
+                    testId: `${TEST_ID}.collect`,
+                    category: 'Missing href on review link',
+                    details: `Card ${cardIndex + 1} link ${linkIndex + 1}`,
+                    sourceUrl: page.url(),
+                });
                 logFailure(
                     `[${siteName}] Missing href for review link (card ${cardIndex + 1}, link ${linkIndex + 1}) on ${page.url()}`,
                 );
@@ -160,40 +167,6 @@ async function collectReviewTargets(
     return targets;
 }
 
-async function extractCasinoName(card: Locator, strategy: CasinoNameStrategy): Promise<string> {
-    if (strategy.type === 'attribute') {
-        const source = card.locator(strategy.selector).first();
-        const attributeValue = await source.getAttribute(strategy.attribute);
-        if (attributeValue?.trim()) {
-            return attributeValue.trim();
-        }
-    } else {
-        const source = card.locator(strategy.selector).first();
-        let text = (await source.innerText()).trim();
-        if (strategy.removePrefixes) {
-            for (const prefix of strategy.removePrefixes) {
-                if (text.toLowerCase().startsWith(prefix.toLowerCase())) {
-                    text = text.slice(prefix.length).trim();
-                    break;
-                }
-            }
-        }
-        if (strategy.removeSuffixes) {
-            for (const suffix of strategy.removeSuffixes) {
-                if (text.toLowerCase().endsWith(suffix.toLowerCase())) {
-                    text = text.slice(0, -suffix.length).trim();
-                    break;
-                }
-            }
-        }
-        if (text) {
-            return text;
-        }
-    }
-
-    return 'unknown-casino';
-}
-
 async function validateReviewTarget(
     parentPage: Page,
     baseURL: string,
@@ -209,13 +182,14 @@ async function validateReviewTarget(
         const status = response?.status() ?? 0;
 
         if (status < 200 || status >= 400) {
-            logFailureToCsv(
-                siteName,
-                `${TEST_ID}.status`,
-                `Review link returned HTTP ${status}`,
-                `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
-                reviewUrl,
-            );
+            failureReporter.record({
+                project: siteName,
+                testId: `${TEST_ID}.status`,
+                category: `Review link returned HTTP ${status}`,
+                details: `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
+                sourceUrl: parentPage.url(),
+                targetUrl: reviewUrl,
+            });
             const message = `[${siteName}] Review link failed (${status}) for ${reviewUrl}`;
             logFailure(message);
             softFailures.push(message);
@@ -228,13 +202,14 @@ async function validateReviewTarget(
             await expect(h1Locator, 'Review page should expose an H1').toBeVisible({ timeout: 15000 });
         } catch (error) {
             const message = `[${siteName}] H1 not found for ${target.casinoName} at ${reviewUrl}`;
-            logFailureToCsv(
-                siteName,
-                `${TEST_ID}.h1.missing`,
-                'H1 selector not visible',
-                `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
-                reviewUrl,
-            );
+            failureReporter.record({
+                project: siteName,
+                testId: `${TEST_ID}.h1.missing`,
+                category: 'H1 selector not visible',
+                details: `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
+                sourceUrl: parentPage.url(),
+                targetUrl: reviewUrl,
+            });
             logFailure(`${message}. ${(error as Error)?.message ?? error}`);
             softFailures.push(message);
             return;
@@ -243,13 +218,14 @@ async function validateReviewTarget(
 
         const matchesCasino = checkH1Content(target.casinoName, h1Text);
         if (!matchesCasino) {
-            logFailureToCsv(
-                siteName,
-                `${TEST_ID}.h1`,
-                `H1 mismatch for casino "${target.casinoName}"`,
-                `H1: ${h1Text}`,
-                reviewUrl,
-            );
+            failureReporter.record({
+                project: siteName,
+                testId: `${TEST_ID}.h1`,
+                category: `H1 mismatch for casino "${target.casinoName}"`,
+                details: `H1: ${h1Text}`,
+                sourceUrl: parentPage.url(),
+                targetUrl: reviewUrl,
+            });
             const message = `[${siteName}] H1 mismatch for ${target.casinoName}. H1="${h1Text}" URL=${reviewUrl}`;
             logFailure(message);
             softFailures.push(message);
@@ -259,13 +235,14 @@ async function validateReviewTarget(
         logSuccess(`[${target.casinoName}] ${reviewUrl} OK (H1 matched: "${h1Text}")`);
     } catch (error) {
         const message = `[${siteName}] Unexpected error while validating ${reviewUrl}: ${(error as Error)?.message ?? error}`;
-        logFailureToCsv(
-            siteName,
-            `${TEST_ID}.unexpected`,
-            `Unexpected error validating ${target.casinoName}`,
-            `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
-            reviewUrl,
-        );
+        failureReporter.record({
+            project: siteName,
+            testId: `${TEST_ID}.unexpected`,
+            category: `Unexpected error validating ${target.casinoName}`,
+            details: `Card ${target.cardIndex + 1} link ${target.linkIndex + 1}`,
+            sourceUrl: parentPage.url(),
+            targetUrl: reviewUrl,
+        });
         logFailure(message);
         softFailures.push(message);
     } finally {
@@ -1,6 +1,5 @@
 import { devices, expect, Frame, Locator, Page, test } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 type SlotDetail = {
@@ -54,10 +53,7 @@ const EXPECTED_PROVIDER = '1x2 gaming';
 const EXPECTED_SLOT_TYPE = 'Păcănele cu fructe';
 const WAIT_AFTER_FILTER_MS = 2500;
 const VERBOSE_LOGGING = false;
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
-const INITIALIZED_CSV_FILES = new Set<string>();
+const failureReporter = createFailureReporter('p1-games-filters-JP-mobile', 'major');
 
 const normalizeProviderText = (value: string) =>
     value.replace(/×/g, 'x').replace(/\s+/g, ' ').trim().toLowerCase();
@@ -77,49 +73,14 @@ const verboseWarn = (...args: unknown[]) => {
 };
 
 // CSV helpers mirror desktop spec but sanitize project names for per-run artifacts.
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) {
-        return '""';
-    }
-    const stringValue = String(value);
-    if (/[",\n]/.test(stringValue)) {
-        return `"${stringValue.replace(/"/g, '""')}"`;
-    }
-    return stringValue;
-};
-
-const getCsvFilePath = (projectName: string) => {
-    const safeName = projectName.replace(/[^\w.-]+/g, '_');
-    return path.join(CSV_FAILURE_DIR, `${safeName}_p1-games-filters-JP-mobile_${RUN_TIMESTAMP}.csv`);
-};
-
-const ensureCsvInitialized = (projectName: string) => {
-    const csvPath = getCsvFilePath(projectName);
-    if (INITIALIZED_CSV_FILES.has(csvPath)) {
-        return csvPath;
-    }
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    INITIALIZED_CSV_FILES.add(csvPath);
-    fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    return csvPath;
-};
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
-
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
-    const row = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(page.url()),
-        csvEscape(error instanceof Error ? error.message : String(error)),
-    ].join(',');
-    appendFailureRow(projectName, row);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${error instanceof Error ? error.message : String(error)}`,
+        sourceUrl: page.url(),
+    });
     verboseWarn(`Logged failure for step "${stepName}"`, error);
 };
 
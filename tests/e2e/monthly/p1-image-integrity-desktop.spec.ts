@@ -0,0 +1,240 @@
+// tests/e2e/monthly/p1-image-integrity-desktop.spec.ts
+// Image integrity per page, grouped by page template: images that fail to decode (naturalWidth 0), 4xx/5xx image
+// responses, content images without alt text and images served far larger than their rendered size.
+// Covers the slot archive, offer cards, payment-method pages, high-traffic pages and part of the crawl selection.
+
+import { test, type Page, type Response } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { crawlSite } from '../config/crawler';
+import { PAYMENT_METHOD_PAGES } from '../config/paymentPages';
+import { SLOT_ARCHIVE_CONFIGS } from '../config/slotArchives';
+import { casinoReviewSiteConfigs } from '../config/sites-casino-reviews';
+import { resolveStructuredDataPageType, type StructuredDataPageType } from '../config/structuredData';
+import { createFailureReporter, type AuditFailure, type FailureSeverity } from '../helpers/failureReporter';
+import { closeCookiePopupIfPresent, closeOptionalPopupIfPresent } from '../helpers/mobileMenuUtils';
+import '../helpers/inactivityWatchdog';
+
+const failureReporter = createFailureReporter('p1-image-integrity-desktop', 'major');
+
+/** Crawl pages audited on top of highTrafficPaths (IMAGE_AUDIT_MAX_PAGES overrides). */
+const MAX_CRAWL_PAGES = Number(process.env.IMAGE_AUDIT_MAX_PAGES) || 30;
+/** Content images: rendered at least this size (smaller ones are icons/spacers, not checked for alt) */
+const CONTENT_IMAGE_MIN_SIZE = 24;
+/** Oversized: intrinsic width at least this multiple of the rendered width (2x is kept for retina) ... */
+const OVERSIZE_RATIO = 3;
+/** ... and at least this many pixels wider than rendered */
+const OVERSIZE_MIN_EXTRA_PX = 400;
+/** Image responses heavier than this are reported as oversized assets */
+const HEAVY_IMAGE_BYTES = 500 * 1024;
+
+type PageTemplate = 'homepage' | 'slot-archive' | 'offer-cards' | 'payment-method' | StructuredDataPageType;
+
+type ImageSnapshot = {
+    src: string;
+    alt: string | null;
+    complete: boolean;
+    naturalWidth: number;
+    naturalHeight: number;
+    renderedWidth: number;
+    renderedHeight: number;
+    decorative: boolean;
+};
+
+type ImageIssue = {
+    testId: string;
+    category: string;
+    details: string;
+    severity?: FailureSeverity;
+    targetUrl: string;
+};
+
+type TemplateSummary = {
+    pages: string[];
+    images: number;
+    broken: number;
+    errorResponses: number;
+    missingAlt: number;
+    oversized: number;
+};
+
+function resolvePageTemplate(siteName: SiteName, pathname: string): PageTemplate {
+    return pathname === '/' ? 'homepage' : resolveStructuredDataPageType(siteName, pathname);
+}
+
+/** Scrolls in steps so lazy-loaded images (loading="lazy", lazysizes, lzl) get a chance to load. */
+async function loadLazyImages(page: Page) {
+    await page.evaluate(async () => {
+        const step = Math.max(window.innerHeight, 600);
+        for (let y = 0; y < document.body.scrollHeight; y += step) {
+            window.scrollTo(0, y);
+            await new Promise((resolve) => setTimeout(resolve, 150));
+        }
+        window.scrollTo(0, 0);
+    });
+    await page.waitForLoadState('networkidle', { timeout: 10_000 }).catch(() => undefined);
+}
+
+async function snapshotImages(page: Page): Promise<ImageSnapshot[]> {
+    return page.locator('img').evaluateAll((nodes) =>
+        (nodes as HTMLImageElement[]).map((img) => {
+            const rect = img.getBoundingClientRect();
+            return {
+                src: img.currentSrc || img.src || img.getAttribute('data-src') || '',
+                alt: img.getAttribute('alt'),
+                complete: img.complete,
+                naturalWidth: img.naturalWidth,
+                naturalHeight: img.naturalHeight,
+                renderedWidth: Math.round(rect.width),
+                renderedHeight: Math.round(rect.height),
+                decorative: img.getAttribute('role') === 'presentation' || img.getAttribute('aria-hidden') === 'true' || img.closest('[aria-hidden="true"]') !== null,
+            };
+        }),
+    );
+}
+
+/** failedUrls: images whose response was already reported as an error status, so they are not reported broken too */
+function checkImages(images: ImageSnapshot[], failedUrls: Set<string>): ImageIssue[] {
+    const issues: ImageIssue[] = [];
+    for (const image of images) {
+        // Lazy-load placeholders and images never requested are not judged
+        if (!image.src || image.src.startsWith('data:')) continue;
+
+        if (image.complete && image.naturalWidth === 0) {
+            if (failedUrls.has(image.src)) continue;
+            issues.push({ testId: 'IMG.broken', category: 'Broken Image', details: 'Image did not decode (naturalWidth 0)', targetUrl: image.src });
+            continue;
+        }
+
+        const isContentImage = !image.decorative && image.renderedWidth >= CONTENT_IMAGE_MIN_SIZE && image.renderedHeight >= CONTENT_IMAGE_MIN_SIZE;
+        if (isContentImage && !image.alt?.trim()) {
+            issues.push({
+                testId: 'IMG.alt',
+                category: 'Image Alt Missing',
+                details: `${image.alt === null ? 'No alt attribute' : 'Empty alt'} on ${image.renderedWidth}x${image.renderedHeight} image`,
+                severity: 'minor',
+                targetUrl: image.src,
+            });
+        }
+
+        if (
+            image.renderedWidth > 0 &&
+            image.naturalWidth >= image.renderedWidth * OVERSIZE_RATIO &&
+            image.naturalWidth - image.renderedWidth >= OVERSIZE_MIN_EXTRA_PX
+        ) {
+            issues.push({
+                testId: 'IMG.oversized',
+                category: 'Oversized Image',
+                details: `Served ${image.naturalWidth}x${image.naturalHeight}, rendered ${image.renderedWidth}x${image.renderedHeight}`,
+                severity: 'minor',
+                targetUrl: image.src,
+            });
+        }
+    }
+    return issues;
+}
+
+test('P1 - Image Integrity Audit', async ({ page }, testInfo) => {
+    test.setTimeout(120 * 60 * 1000);
+
+    const projectName = testInfo.project.name as SiteName;
+    const cfg = siteConfigs[projectName];
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${projectName}`); }
+    failureReporter.ensureInitialized(projectName);
+
+    // --- 1. Pages: slot archive, offer-card page, payment-method pages, high-traffic pages and part of the crawl selection ---
+    const pagesToAudit = new Map<string, PageTemplate>();
+    const addPage = (pagePath: string, template?: PageTemplate) => {
+        const url = new URL(pagePath, baseURL);
+        if (!pagesToAudit.has(url.toString())) pagesToAudit.set(url.toString(), template ?? resolvePageTemplate(projectName, url.pathname));
+    };
+    const slotArchivePath = SLOT_ARCHIVE_CONFIGS[projectName]?.archivePath;
+    if (slotArchivePath) addPage(slotArchivePath, 'slot-archive');
+    addPage(casinoReviewSiteConfigs[projectName].pagePath, 'offer-cards');
+    PAYMENT_METHOD_PAGES[projectName]?.forEach((paymentPage) => addPage(paymentPage.path, 'payment-method'));
+    cfg.highTrafficPaths.forEach((pagePath) => addPage(pagePath));
+    // No siteName: crawl audit ledger and selections stay untouched
+    const { discoveredUrls } = await test.step('Select crawl pages', () => crawlSite(page, baseURL, cfg));
+    discoveredUrls.slice(0, MAX_CRAWL_PAGES).forEach((pagePath) => addPage(pagePath));
+
+    // Image responses of the page being audited: error statuses and byte sizes
+    let imageResponses: { url: string; status: number; bytes: number | null }[] = [];
+    const onResponse = (response: Response) => {
+        if (response.request().resourceType() !== 'image') return;
+        const length = Number(response.headers()['content-length']);
+        imageResponses.push({ url: response.url(), status: response.status(), bytes: Number.isFinite(length) ? length : null });
+    };
+    page.on('response', onResponse);
+
+    const failures: AuditFailure[] = [];
+    const summaries: Partial<Record<PageTemplate, TemplateSummary>> = {};
+    // Heavy images (logos, banners) repeat on many pages; each URL is reported once per run
+    const reportedHeavyUrls = new Set<string>();
+    let popupsHandled = false;
+
+    for (const [pageUrl, template] of pagesToAudit) {
+        const summary = (summaries[template] ??= { pages: [], images: 0, broken: 0, errorResponses: 0, missingAlt: 0, oversized: 0 });
+
+        await test.step(`[${template}] ${pageUrl}`, async () => {
+            imageResponses = [];
+            try {
+                await page.goto(pageUrl, { waitUntil: 'load', timeout: 45_000 });
+                if (!popupsHandled) {
+                    await closeCookiePopupIfPresent(page, projectName);
+                    await closeOptionalPopupIfPresent(page, projectName);
+                    popupsHandled = true;
+                }
+                await loadLazyImages(page);
+            } catch (error) {
+                failures.push(failureReporter.record({ project: projectName, testId: 'IMG.load', category: 'Page Load Failure', details: (error as Error).message.split('\n')[0], sourceUrl: pageUrl }));
+                return;
+            }
+
+            const issues: ImageIssue[] = [];
+            const errorUrls = new Set<string>();
+            for (const response of imageResponses) {
+                if (response.status >= 400) {
+                    if (errorUrls.has(response.url)) continue;
+                    errorUrls.add(response.url);
+                    issues.push({ testId: 'IMG.status', category: `Image HTTP ${response.status}`, details: 'Image request failed', targetUrl: response.url });
+                } else if (response.bytes !== null && response.bytes > HEAVY_IMAGE_BYTES && !reportedHeavyUrls.has(response.url)) {
+                    reportedHeavyUrls.add(response.url);
+                    issues.push({ testId: 'IMG.oversized', category: 'Heavy Image', details: `${Math.round(response.bytes / 1024)} KB transferred`, severity: 'minor', targetUrl: response.url });
+                }
+            }
+
+            const images = await snapshotImages(page);
+            issues.unshift(...checkImages(images, errorUrls));
+
+            summary.pages.push(pageUrl);
+            summary.images += images.length;
+            for (const issue of issues) {
+                if (issue.testId === 'IMG.broken') summary.broken++;
+                else if (issue.testId === 'IMG.status') summary.errorResponses++;
+                else if (issue.testId === 'IMG.alt') summary.missingAlt++;
+                else summary.oversized++;
+
+                failures.push(failureReporter.record({ project: projectName, ...issue, details: `[${template}] ${issue.details}`, sourceUrl: pageUrl }));
+                const mark = issue.severity === 'minor' ? '⚠️' : '❌';
+                console.log(`[${projectName}] ${mark} ${issue.category}: ${issue.targetUrl} on ${pageUrl} — ${issue.details}`);
+            }
+            if (issues.length === 0) console.log(`[${projectName}] ✅ ${images.length} image(s) OK on ${pageUrl}`);
+        });
+    }
+    page.off('response', onResponse);
+
+    for (const [template, summary] of Object.entries(summaries)) {
+        console.log(
+            `[${projectName}] ${template}: ${summary.pages.length} page(s), ${summary.images} image(s), ${summary.broken} broken, ` +
+                `${summary.errorResponses} error response(s), ${summary.missingAlt} missing alt, ${summary.oversized} oversized`,
+        );
+    }
+    testInfo.attachments.push({ name: `${projectName}-image-integrity.json`, contentType: 'application/json', body: Buffer.from(JSON.stringify(summaries, null, 2), 'utf8') });
+
+    // Missing alt and oversized images are reported, broken images and error responses fail the test
+    const blocking = failures.filter((failure) => failure.severity !== 'minor');
+    if (blocking.length > 0) {
+        throw new Error(`Image audit found ${blocking.length} broken image(s)/page failure(s) (${failures.length} findings total). Check CSV for details.`);
+    }
+    console.log(`[${projectName}] ✅ No broken images across ${pagesToAudit.size} page(s) (${failures.length} minor finding(s)).`);
+});
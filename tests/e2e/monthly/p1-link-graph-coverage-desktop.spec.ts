@@ -0,0 +1,99 @@
+// tests/e2e/monthly/p1-link-graph-coverage-desktop.spec.ts
+// Compares sitemap discovery with link-graph discovery: orphan pages (in the sitemap but not linked)
+// and unlisted pages (linked internally but missing from the sitemap).
+
+import { test } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { compareDiscovery, discoverByLinks, isEligiblePath, toCrawlPath } from '../config/crawler';
+import { collectSitemapEntries } from '../config/sitemap';
+import { createFailureReporter } from '../helpers/failureReporter';
+import '../helpers/inactivityWatchdog';
+
+const failureReporter = createFailureReporter('p1-link-graph-coverage-desktop', 'minor');
+
+/** Page budget for the link walk (LINK_GRAPH_MAX_PAGES overrides; orphans are only reliable on a full walk). */
+const LINK_GRAPH_MAX_PAGES = Number(process.env.LINK_GRAPH_MAX_PAGES) || 500;
+
+test('P1 - Link Graph vs Sitemap Coverage', async ({ page }, testInfo) => {
+    test.setTimeout(120 * 60 * 1000);
+
+    const projectName = testInfo.project.name as SiteName;
+    const cfg = siteConfigs[projectName];
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${projectName}`); }
+    failureReporter.ensureInitialized(projectName);
+
+    // --- 1. Sitemap side ---
+    const collection = await test.step('Collect sitemap URLs', () => collectSitemapEntries(baseURL));
+    const siteHost = new URL(baseURL).hostname.replace(/^www\./, '');
+    const sitemapPaths = new Set<string>();
+    const sitemapSourceByPath = new Map<string, string>();
+    for (const entry of collection.entries) {
+        let host = '';
+        try { host = new URL(entry.loc).hostname.replace(/^www\./, ''); } catch { continue; }
+        const path = toCrawlPath(entry.loc);
+        if (host !== siteHost || !path || !isEligiblePath(path, cfg)) continue;
+        sitemapPaths.add(path);
+        if (!sitemapSourceByPath.has(path)) sitemapSourceByPath.set(path, entry.sitemapUrl);
+    }
+
+    // --- 2. Link-graph side ---
+    const graph = await test.step('Walk internal links', () => discoverByLinks(page, baseURL, cfg, { maxPages: LINK_GRAPH_MAX_PAGES }));
+
+    // --- 3. Comparison ---
+    const comparison = compareDiscovery(sitemapPaths, graph.linkedPaths);
+    console.log(`[${projectName}] Sitemap: ${sitemapPaths.size}, linked: ${graph.linkedPaths.length}, shared: ${comparison.sharedCount}, orphans: ${comparison.orphanPaths.length}, unlisted: ${comparison.unlistedPaths.length}`);
+
+    if (graph.truncated) {
+        // A partial walk cannot prove a page is unlinked, so orphans are reported but not recorded as failures
+        const reasons: string[] = [];
+        if (graph.failedPaths.length > 0) reasons.push(`${graph.failedPaths.length} page(s) failed to load, so their links were not walked`);
+        if (graph.depthLimitedCount > 0) reasons.push(`${graph.depthLimitedCount} linked page(s) beyond the depth limit were not walked (raise maxLinkDepth)`);
+        if (graph.visitedPaths.length >= LINK_GRAPH_MAX_PAGES) reasons.push(`page budget of ${LINK_GRAPH_MAX_PAGES} reached (raise LINK_GRAPH_MAX_PAGES)`);
+        const reason = reasons.join('; ');
+        console.warn(`[${projectName}] ⚠️ Link walk incomplete after ${graph.visitedPaths.length} pages: ${reason}; orphan list is incomplete evidence.`);
+        testInfo.annotations.push({ type: 'Partial Link Walk', description: `Visited ${graph.visitedPaths.length} pages: ${reason}.` });
+    } else {
+        for (const orphanPath of comparison.orphanPaths) {
+            failureReporter.record({
+                project: projectName,
+                testId: 'LG.orphan',
+                category: 'Orphan Page',
+                details: graph.ineligibleLinkCount > 0
+                    ? `Listed in the sitemap but not linked from any crawled page (${graph.ineligibleLinkCount} links to excluded paths were not followed)`
+                    : 'Listed in the sitemap but not linked from any crawled page',
+                sourceUrl: sitemapSourceByPath.get(orphanPath) ?? '',
+                targetUrl: baseURL + orphanPath,
+            });
+        }
+    }
+
+    for (const unlistedPath of comparison.unlistedPaths) {
+        failureReporter.record({
+            project: projectName,
+            testId: 'LG.unlisted',
+            category: 'Unlisted Page',
+            details: 'Linked internally but missing from the sitemap',
+            sourceUrl: baseURL,
+            targetUrl: baseURL + unlistedPath,
+        });
+    }
+
+    const report = {
+        project: projectName,
+        generatedAt: new Date().toISOString(),
+        sitemapCount: sitemapPaths.size,
+        linkedCount: graph.linkedPaths.length,
+        visitedCount: graph.visitedPaths.length,
+        depthReached: graph.depthReached,
+        truncated: graph.truncated,
+        depthLimitedCount: graph.depthLimitedCount,
+        ineligibleLinkCount: graph.ineligibleLinkCount,
+        failedPaths: graph.failedPaths,
+        ...comparison,
+    };
+    testInfo.attachments.push({ name: 'Link Graph vs Sitemap', contentType: 'application/json', body: Buffer.from(JSON.stringify(report, null, 2), 'utf8') });
+    testInfo.annotations.push({ type: 'Link Graph Coverage', description: `${comparison.orphanPaths.length} orphan(s), ${comparison.unlistedPaths.length} unlisted page(s)` });
+
+    console.log(`[${projectName}] ✅ Link graph comparison completed.`);
+});
@@ -1,15 +1,9 @@
 import { expect, Locator, Page, test } from '@playwright/test';
 import * as fs from 'fs';
 import path from 'path';
+import { PAYMENT_METHOD_PAGES, type PaymentPageConfig } from '../config/paymentPages';
 import '../helpers/inactivityWatchdog';
 
-type PaymentPageConfig = {
-    path: string;
-    label: string;
-    keyword: string;
-    expectedPaymentPattern: RegExp;
-};
-
 type SoftFailure = {
     pagePath: string;
     cardLabel: string;
@@ -22,20 +16,7 @@ const REVIEW_LINK_SELECTOR = 'a.casino-review';
 const PAYMENT_SECTION_TITLE = /Metode de plat[ăa]/i;
 const PAYMENT_IMAGE_SELECTOR = 'img[alt], img[title]';
 
-const PAYMENT_PAGES: PaymentPageConfig[] = [
-    { path: '/blog/visa/', label: 'Visa', keyword: 'visa', expectedPaymentPattern: /visa/i },
-    { path: '/blog/mastercard/', label: 'Mastercard', keyword: 'mastercard', expectedPaymentPattern: /mastercard/i },
-    { path: '/blog/card-revolut-casino/', label: 'Card Revolut', keyword: 'revolut', expectedPaymentPattern: /revolut/i },
-    { path: '/blog/cazinouri-skrill/', label: 'Skrill', keyword: 'skrill', expectedPaymentPattern: /skrill/i },
-    { path: '/blog/neteller/', label: 'Neteller', keyword: 'neteller', expectedPaymentPattern: /neteller/i },
-    { path: '/blog/cazinouri-paysafecard/', label: 'Paysafecard', keyword: 'paysafecard', expectedPaymentPattern: /paysafecard/i },
-    { path: '/blog/transfer-bancar/', label: 'Transfer Bancar', keyword: 'transfer', expectedPaymentPattern: /transfer\s*bancar/i },
-    { path: '/blog/okto-cash/', label: 'Okto Cash', keyword: 'okto', expectedPaymentPattern: /okto/i },
-    { path: '/blog/abon/', label: 'Abon', keyword: 'abon', expectedPaymentPattern: /abon/i },
-    { path: '/blog/cazinouri-paypal/', label: 'PayPal', keyword: 'paypal', expectedPaymentPattern: /paypal/i },
-    { path: '/blog/trustly/', label: 'Trustly', keyword: 'trustly', expectedPaymentPattern: /trustly/i },
-    { path: '/blog/cazinouri-top-pay/', label: 'Top Pay', keyword: 'top pay', expectedPaymentPattern: /top\s*pay/i },
-];
+const PAYMENT_PAGES = PAYMENT_METHOD_PAGES.supercazino ?? [];
 
 test.describe('P1 - Metode de plata - Supercazino Desktop', () => {
     test('Validates payment tags on casino review CTAs', async ({ page }) => {
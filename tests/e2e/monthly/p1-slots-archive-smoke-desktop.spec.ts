@@ -1,9 +1,9 @@
 import { expect, Locator, Page, Response, test } from '@playwright/test';
-import path from 'path';
-import * as fs from 'fs';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 import { SiteName } from '../config/sites';
+import { SLOT_ARCHIVE_CONFIGS, type SlotArchiveConfig } from '../config/slotArchives';
 import {
     buildAbsoluteUrl,
     checkH1Content,
@@ -11,76 +11,6 @@ import {
     closeOptionalPopupIfPresent,
 } from '../helpers/mobileMenuUtils';
 
-type SlotArchiveConfig = {
-    archivePath: string;
-    slotCardSelector: string;
-    slotLinkSelector?: string;
-    h1Selector?: string;
-    paginationNextSelector?: string;
-    paginationLimit?: number;
-    slotLinkRequiresHover?: boolean;
-    slotHoverSelector?: string;
-    slotNameSelector?: string;
-    loadMoreSelector?: string;
-    loadMoreMaxClicks?: number;
-    loadMoreAllowedDataIds?: string[];
-    loadMorePerButtonLimit?: number;
-    multiLoadMore?: boolean;
-    forceIsolatedValidation?: boolean;
-};
-
-const SLOT_ARCHIVE_CONFIGS: Partial<Record<SiteName, SlotArchiveConfig>> = {
-    'casino.com.ro': {
-        archivePath: '/sloturi/',
-        slotCardSelector: 'div.col-span-1:has(a[href*="/slot/"])',
-        slotLinkSelector: 'a[href*="/slot/"]',
-        h1Selector: 'h1',
-        paginationNextSelector: '.pagination a.next.page-numbers',
-        paginationLimit: 30,
-    },
-    'jocsloturi': {
-        archivePath: '/toate-jocuri-gratis/',
-        slotCardSelector: '.slot-card',
-        slotLinkSelector: '.slot-image-content .button.button-orange-gradient',
-        slotHoverSelector: '.slot-item',
-        slotLinkRequiresHover: true,
-        slotNameSelector: '.slot-info .slot-button-archive',
-        h1Selector: 'h1',
-        paginationNextSelector: '.ast-pagination a.next.page-numbers',
-        paginationLimit: 60,
-    },
-    'jocpacanele': {
-        archivePath: '/jocuri-pacanele/',
-        slotCardSelector: '.single_slot_card',
-        slotLinkSelector: '.slot-demo-btn, .click-interaction-ajax.btn',
-        slotHoverSelector: '.slot-card',
-        slotLinkRequiresHover: true,
-        slotNameSelector: '.hidden-card .slot-name',
-        h1Selector: 'h1',
-        loadMoreSelector: '#load-more-button',
-        loadMoreMaxClicks: 80,
-    },
-    'jocuricazinouri': {
-        archivePath: '/jocuri-casino-gratis/',
-        slotCardSelector: '.card-play',
-        slotLinkSelector: '.card-play__wrapper .button--internal',
-        slotHoverSelector: '.card-play',
-        slotLinkRequiresHover: true,
-        slotNameSelector: '.card-play__wrapper .p-h6, .card-play__wrapper p.p-h6',
-        h1Selector: 'h1',
-        paginationNextSelector: '.posts-pagination .page-item.next a.page-link',
-        paginationLimit: 50,
-    },
-    'supercazino': {
-        archivePath: '/sloturi-gratis/',
-        slotCardSelector: '.card_inner.single-slot-in-card',
-        slotLinkSelector: '.card_inner.single-slot-in-card a.btn.btn--1',
-        slotNameSelector: '.card_inner.single-slot-in-card .sc-h4-slot-card',
-        h1Selector: 'h1',
-        forceIsolatedValidation: true,
-    },
-};
-
 const SUPPORTED_SLOT_ARCHIVE_PROJECTS = new Set<SiteName>([
     'casino.com.ro',
     'jocsloturi',
@@ -95,13 +25,7 @@ const INFO_MARK = '🔍';
 const PASS_MARK = '✅';
 const FAIL_MARK = '❌';
 
-const BASE_REPORT_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Test ID,Failure Type,Details,Failing URL\n';
-
-function getCsvFilePath(projectName: SiteName) {
-    return path.join(BASE_REPORT_DIR, `${projectName}_p1-slots-archive-smoke-desktop_${RUN_TIMESTAMP}.csv`);
-}
+const failureReporter = createFailureReporter('p1-slots-archive-smoke-desktop', 'major');
 
 async function processSupercazinoRuleta(
     page: Page,
@@ -573,28 +497,8 @@ async function waitForSlotCountIncrease(
     return false;
 }
 
-function ensureCsvInitialized(projectName: SiteName) {
-    if (!fs.existsSync(BASE_REPORT_DIR)) {
-        fs.mkdirSync(BASE_REPORT_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-        console.log(`[CSV] Initialized ${csvPath}`);
-    }
-}
-
-function csvEscape(str: string | null | undefined) {
-    if (str === null || str === undefined) return '""';
-    return `"${String(str).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ')}"`;
-}
-
 function logFailureToCsv(projectName: SiteName, testStep: string, type: string, details: string, failingUrl: string) {
-    ensureCsvInitialized(projectName);
-    const row = `${csvEscape(projectName)},${csvEscape(testStep)},${csvEscape(type)},${csvEscape(details)},${csvEscape(
-        failingUrl,
-    )}`;
-    fs.appendFileSync(getCsvFilePath(projectName), `${row}\n`, { encoding: 'utf8' });
+    failureReporter.record({ project: projectName, testId: testStep, category: type, details, sourceUrl: failingUrl });
 }
 
 test.describe('P1 Monthly • Slot Archive Smoke • Desktop', () => {
@@ -616,7 +520,7 @@ test.describe('P1 Monthly • Slot Archive Smoke • Desktop', () => {
             throw new Error(`Project ${projectName} is missing a baseURL in Playwright config.`);
         }
 
-        ensureCsvInitialized(projectName);
+        failureReporter.ensureInitialized(projectName);
         const softFailures: string[] = [];
 
         const archiveUrl = new URL(config.archivePath, baseURL).toString();
@@ -0,0 +1,118 @@
+// tests/e2e/monthly/p1-structured-data-desktop.spec.ts
+// JSON-LD audit: slot, casino review and listing pages must expose parseable structured data with the required
+// types (Review/AggregateRating, FAQPage, BreadcrumbList, VideoGame) and properties, named like the page H1.
+
+import { test } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { collectSitemapEntries } from '../config/sitemap';
+import { createSeededRandom, resolveSeed, seededShuffle } from '../config/crawler';
+import { resolveStructuredDataPageType, type StructuredDataPageType } from '../config/structuredData';
+import { createFailureReporter, type AuditFailure } from '../helpers/failureReporter';
+import { findFirstH1 } from '../helpers/htmlMeta';
+import { extractJsonLd, typesOf, validateStructuredData } from '../helpers/structuredData';
+import '../helpers/inactivityWatchdog';
+
+const failureReporter = createFailureReporter('p1-structured-data-desktop', 'major');
+
+/** Sitemap pages sampled per page type (STRUCTURED_DATA_SAMPLE overrides). */
+const SAMPLE_SIZE = Number(process.env.STRUCTURED_DATA_SAMPLE) || 10;
+const REQUEST_TIMEOUT = 30_000;
+
+type StructuredDataPageResult = {
+    url: string;
+    pageType: StructuredDataPageType;
+    blockCount: number;
+    types: string[];
+    h1: string | null;
+    issues: string[];
+};
+
+test('P1 - Structured Data (JSON-LD) Audit', async ({ request }, testInfo) => {
+    test.setTimeout(60 * 60 * 1000);
+
+    const projectName = testInfo.project.name as SiteName;
+    const cfg = siteConfigs[projectName];
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${projectName}`); }
+    failureReporter.ensureInitialized(projectName);
+    const siteHost = new URL(baseURL).hostname.replace(/^www\./, '');
+
+    // --- 1. Pages: every high-traffic page plus a sample of slot and review pages from the sitemap ---
+    const pagesByType: Record<StructuredDataPageType, Set<string>> = { slot: new Set(), review: new Set(), listing: new Set() };
+    for (const pagePath of cfg.highTrafficPaths) {
+        const url = new URL(pagePath, baseURL);
+        pagesByType[resolveStructuredDataPageType(projectName, url.pathname)].add(url.toString());
+    }
+
+    await test.step('Sample slot and review pages from the sitemap', async () => {
+        const collection = await collectSitemapEntries(baseURL);
+        const candidates: Record<'slot' | 'review', string[]> = { slot: [], review: [] };
+        for (const entry of collection.entries) {
+            let url: URL;
+            try { url = new URL(entry.loc); } catch { continue; }
+            if (url.hostname.replace(/^www\./, '') !== siteHost) continue;
+            const pageType = resolveStructuredDataPageType(projectName, url.pathname);
+            if (pageType !== 'listing') candidates[pageType].push(url.toString());
+        }
+        const seed = resolveSeed(cfg);
+        const random = createSeededRandom(seed);
+        for (const pageType of ['slot', 'review'] as const) {
+            seededShuffle([...new Set(candidates[pageType])], random).slice(0, SAMPLE_SIZE).forEach((url) => pagesByType[pageType].add(url));
+        }
+        console.log(`[${projectName}] Sitemap candidates: ${candidates.slot.length} slot, ${candidates.review.length} review (seed: ${seed}).`);
+        testInfo.annotations.push({ type: 'Structured Data Sample Seed', description: String(seed) });
+    });
+
+    // --- 2. Per-page JSON-LD validation ---
+    const failures: AuditFailure[] = [];
+    const results: StructuredDataPageResult[] = [];
+    for (const pageType of ['listing', 'review', 'slot'] as const) {
+        const urls = [...pagesByType[pageType]];
+        if (urls.length === 0) continue;
+
+        await test.step(`Validate ${pageType} pages (${urls.length})`, async () => {
+            for (const url of urls) {
+                let html: string;
+                try {
+                    const response = await request.get(url, { failOnStatusCode: false, timeout: REQUEST_TIMEOUT });
+                    if (response.status() !== 200) {
+                        failures.push(failureReporter.record({ project: projectName, testId: 'SD.load', category: 'Page Error Status', details: `HTTP ${response.status()}`, sourceUrl: url }));
+                        continue;
+                    }
+                    html = await response.text();
+                } catch (error) {
+                    failures.push(failureReporter.record({ project: projectName, testId: 'SD.load', category: 'Page Unreachable', details: (error as Error).message.split('\n')[0], sourceUrl: url }));
+                    continue;
+                }
+
+                const extraction = extractJsonLd(html);
+                const h1 = findFirstH1(html);
+                const issues = validateStructuredData(pageType, new URL(url).pathname, extraction, h1);
+                results.push({
+                    url,
+                    pageType,
+                    blockCount: extraction.blockCount,
+                    types: [...new Set(extraction.nodes.flatMap(typesOf))],
+                    h1,
+                    issues: issues.map((issue) => `${issue.category}: ${issue.details}`),
+                });
+
+                if (issues.length === 0) {
+                    console.log(`[${projectName}] ✅ ${url} (${pageType}, ${extraction.blockCount} JSON-LD block(s))`);
+                    continue;
+                }
+                for (const issue of issues) {
+                    failures.push(failureReporter.record({ project: projectName, ...issue, sourceUrl: url }));
+                    console.error(`[${projectName}] ❌ ${issue.category}: ${url} — ${issue.details}`);
+                }
+            }
+        });
+    }
+
+    testInfo.attachments.push({ name: `${projectName}-structured-data.json`, contentType: 'application/json', body: Buffer.from(JSON.stringify(results, null, 2), 'utf8') });
+
+    if (failures.length > 0) {
+        throw new Error(`Structured data audit found ${failures.length} issue(s) on ${results.length} page(s). Check CSV for details.`);
+    }
+    console.log(`[${projectName}] ✅ Structured data OK on ${results.length} page(s).`);
+});
@@ -0,0 +1,235 @@
+// tests/e2e/reporters/auditSummaryReporter.ts
+// Custom reporter: aggregates the soft failures of every project into a single run summary
+// (audit-summary/run-summary.json + a standalone audit-summary/index.html dashboard). Failures recorded by reporters
+// listed before this one (e.g. the brand consistency reporter) are included; keep it last in playwright.config.ts.
+
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import path from 'path';
+import { AUDIT_FAILURES_ATTACHMENT, takeFailuresOutsideTests, type AuditFailure, type FailureSeverity } from '../helpers/failureReporter';
+
+type AuditSummaryReporterOptions = {
+    /** Output folder, relative to the working directory. Defaults to 'audit-summary'. */
+    outputFolder?: string;
+};
+
+type CountMap = Record<string, number>;
+
+export type RunSummary = {
+    startedAt: string;
+    finishedAt: string;
+    status: FullResult['status'];
+    totalFailures: number;
+    tests: { total: number; passed: number; failed: number; skipped: number };
+    bySite: CountMap;
+    bySuite: CountMap;
+    byCategory: CountMap;
+    bySeverity: Record<FailureSeverity, number>;
+    /** site -> suite -> count */
+    matrix: Record<string, CountMap>;
+    failures: AuditFailure[];
+};
+
+type TestOutcome = {
+    status: TestResult['status'];
+    failures: AuditFailure[];
+};
+
+function increment(map: CountMap, key: string) {
+    map[key] = (map[key] ?? 0) + 1;
+}
+
+function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** Combines every audit-failures.json attachment of the result (one failure each; arrays are accepted too). */
+function readFailures(result: TestResult): AuditFailure[] {
+    const failures: AuditFailure[] = [];
+    for (const attachment of result.attachments) {
+        if (attachment.name !== AUDIT_FAILURES_ATTACHMENT) continue;
+        try {
+            const raw = attachment.body
+                ? attachment.body.toString('utf8')
+                : attachment.path
+                  ? fs.readFileSync(attachment.path, 'utf8')
+                  : '[]';
+            const parsed = JSON.parse(raw) as AuditFailure | AuditFailure[];
+            failures.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+        } catch (e) {
+            console.warn(`[AuditSummary] ⚠️ Could not parse ${AUDIT_FAILURES_ATTACHMENT}: ${(e as Error).message}`);
+        }
+    }
+    return failures;
+}
+
+function renderCountTable(title: string, counts: CountMap): string {
+    const rows = Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([key, count]) => `<tr><td>${escapeHtml(key)}</td><td class="num">${count}</td></tr>`)
+        .join('');
+    return `<section><h2>${escapeHtml(title)}</h2><table><thead><tr><th>Name</th><th>Failures</th></tr></thead><tbody>${rows || '<tr><td colspan="2">None</td></tr>'}</tbody></table></section>`;
+}
+
+function renderMatrix(summary: RunSummary): string {
+    const sites = Object.keys(summary.bySite);
+    const suites = Object.keys(summary.bySuite).sort();
+    if (suites.length === 0) return '<section><h2>Site × Suite</h2><p>No failures recorded.</p></section>';
+
+    const header = suites.map((suite) => `<th>${escapeHtml(suite)}</th>`).join('');
+    const rows = sites
+        .map((site) => {
+            const cells = suites
+                .map((suite) => {
+                    const count = summary.matrix[site]?.[suite] ?? 0;
+                    return `<td class="num${count > 0 ? ' hot' : ''}">${count}</td>`;
+                })
+                .join('');
+            return `<tr><th>${escapeHtml(site)}</th>${cells}<td class="num"><strong>${summary.bySite[site]}</strong></td></tr>`;
+        })
+        .join('');
+    return `<section><h2>Site × Suite</h2><table><thead><tr><th>Site</th>${header}<th>Total</th></tr></thead><tbody>${rows}</tbody></table></section>`;
+}
+
+function renderHtml(summary: RunSummary): string {
+    const failureRows = summary.failures
+        .map(
+            (f) =>
+                `<tr class="sev-${f.severity}"><td>${escapeHtml(f.project)}</td><td>${escapeHtml(f.suite)}</td><td>${escapeHtml(f.testId)}</td><td>${escapeHtml(f.category)}</td><td>${escapeHtml(f.severity)}</td><td>${escapeHtml(f.sourceUrl)}</td><td>${escapeHtml(f.targetUrl)}</td><td>${escapeHtml(f.details)}</td><td>${escapeHtml(f.knownIssue)}</td></tr>`
+        )
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Audit run summary – ${escapeHtml(summary.finishedAt)}</title>
+<style>
+    body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; margin: 24px; color: #222; }
+    h1 { margin-bottom: 4px; }
+    .meta { color: #666; margin-bottom: 24px; }
+    .cards { display: flex; gap: 16px; flex-wrap: wrap; margin-bottom: 24px; }
+    .card { border: 1px solid #ddd; border-radius: 6px; padding: 12px 16px; min-width: 120px; }
+    .card .value { font-size: 24px; font-weight: bold; }
+    section { margin-bottom: 28px; }
+    table { border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+    thead th { background: #f4f4f4; }
+    td.num { text-align: right; }
+    td.hot { background: #fde2e2; }
+    tr.sev-critical td:nth-child(5) { color: #b00020; font-weight: bold; }
+    tr.sev-major td:nth-child(5) { color: #c75c00; }
+    tr.sev-acknowledged td { color: #888; }
+    td { word-break: break-word; max-width: 480px; }
+</style>
+</head>
+<body>
+<h1>Audit run summary</h1>
+<div class="meta">Started ${escapeHtml(summary.startedAt)} · Finished ${escapeHtml(summary.finishedAt)} · Status: ${escapeHtml(summary.status)}</div>
+<div class="cards">
+    <div class="card"><div>Soft failures</div><div class="value">${summary.totalFailures}</div></div>
+    <div class="card"><div>Critical</div><div class="value">${summary.bySeverity.critical}</div></div>
+    <div class="card"><div>Major</div><div class="value">${summary.bySeverity.major}</div></div>
+    <div class="card"><div>Minor</div><div class="value">${summary.bySeverity.minor}</div></div>
+    <div class="card"><div>Acknowledged</div><div class="value">${summary.bySeverity.acknowledged}</div></div>
+    <div class="card"><div>Tests passed / failed / skipped</div><div class="value">${summary.tests.passed} / ${summary.tests.failed} / ${summary.tests.skipped}</div></div>
+</div>
+${renderMatrix(summary)}
+${renderCountTable('By failure type', summary.byCategory)}
+<section><h2>Failures</h2>
+<table><thead><tr><th>Site</th><th>Suite</th><th>Test ID</th><th>Category</th><th>Severity</th><th>Source URL</th><th>Target URL</th><th>Details</th><th>Known Issue</th></tr></thead>
+<tbody>${failureRows || '<tr><td colspan="9">No failures recorded.</td></tr>'}</tbody></table>
+</section>
+</body>
+</html>
+`;
+}
+
+class AuditSummaryReporter implements Reporter {
+    private readonly outputFolder: string;
+    private startedAt = new Date();
+    private projectNames: string[] = [];
+    /** Latest result per test id, so retries do not double count failures. */
+    private outcomes = new Map<string, TestOutcome>();
+
+    constructor(options: AuditSummaryReporterOptions = {}) {
+        this.outputFolder = path.resolve(process.cwd(), options.outputFolder ?? 'audit-summary');
+    }
+
+    printsToStdio(): boolean {
+        return false;
+    }
+
+    onBegin(config: FullConfig) {
+        this.startedAt = new Date();
+        this.projectNames = config.projects.map((project) => project.name);
+    }
+
+    onTestEnd(test: TestCase, result: TestResult) {
+        this.outcomes.set(test.id, { status: result.status, failures: readFailures(result) });
+    }
+
+    onEnd(result: FullResult) {
+        const summary = this.buildSummary(result);
+
+        fs.mkdirSync(this.outputFolder, { recursive: true });
+        const jsonPath = path.join(this.outputFolder, 'run-summary.json');
+        const htmlPath = path.join(this.outputFolder, 'index.html');
+        fs.writeFileSync(jsonPath, JSON.stringify(summary, null, 2), 'utf8');
+        fs.writeFileSync(htmlPath, renderHtml(summary), 'utf8');
+
+        console.log(`[AuditSummary] ${summary.totalFailures} soft failure(s) across ${this.projectNames.length} project(s). Summary: ${htmlPath}`);
+    }
+
+    private buildSummary(result: FullResult): RunSummary {
+        const summary: RunSummary = {
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            status: result.status,
+            totalFailures: 0,
+            tests: { total: 0, passed: 0, failed: 0, skipped: 0 },
+            bySite: {},
+            bySuite: {},
+            byCategory: {},
+            bySeverity: { critical: 0, major: 0, minor: 0, acknowledged: 0 },
+            matrix: {},
+            failures: [],
+        };
+
+        // Every configured project shows up, even with zero failures.
+        for (const name of this.projectNames) {
+            summary.bySite[name] = 0;
+            summary.matrix[name] = {};
+        }
+
+        const addFailure = (failure: AuditFailure) => {
+            summary.failures.push(failure);
+            increment(summary.bySite, failure.project);
+            increment(summary.bySuite, failure.suite);
+            increment(summary.byCategory, failure.category);
+            summary.bySeverity[failure.severity] = (summary.bySeverity[failure.severity] ?? 0) + 1;
+            increment((summary.matrix[failure.project] ??= {}), failure.suite);
+        };
+
+        for (const outcome of this.outcomes.values()) {
+            summary.tests.total++;
+            if (outcome.status === 'passed') summary.tests.passed++;
+            else if (outcome.status === 'skipped') summary.tests.skipped++;
+            else summary.tests.failed++;
+
+            outcome.failures.forEach(addFailure);
+        }
+        // Recorded in this process outside any test, e.g. cross-site findings written by an earlier reporter's onEnd
+        takeFailuresOutsideTests().forEach(addFailure);
+
+        summary.totalFailures = summary.failures.length;
+        return summary;
+    }
+}
+
+export default AuditSummaryReporter;
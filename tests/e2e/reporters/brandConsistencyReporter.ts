@@ -0,0 +1,102 @@
+// tests/e2e/reporters/brandConsistencyReporter.ts
+// Custom reporter: once every project has finished, merges the data-casino collector dumps of this run
+// (data-casino-parameter-check.spec.ts, one attachment per project) and reports cross-site brand inconsistencies
+// to the failure CSVs, casino-cta-consistency.json and the audit run summary (list this reporter before
+// auditSummaryReporter). Does nothing when the collector did not run.
+
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import path from 'path';
+import { CASINO_CTA_DUMP_ATTACHMENT, analyzeBrandConsistency, type ProjectArchiveDump } from '../helpers/brandConsistency';
+import { createFailureReporter } from '../helpers/failureReporter';
+
+type BrandConsistencyReporterOptions = {
+    /** Report file, relative to the working directory. Defaults to 'casino-cta-consistency.json'. */
+    outputFile?: string;
+};
+
+const failureReporter = createFailureReporter('data-casino-consistency-report', 'minor');
+
+function readDump(result: TestResult): ProjectArchiveDump | null {
+    const attachment = result.attachments.find((a) => a.name === CASINO_CTA_DUMP_ATTACHMENT);
+    if (!attachment) return null;
+    try {
+        const raw = attachment.body ? attachment.body.toString('utf8') : attachment.path ? fs.readFileSync(attachment.path, 'utf8') : '';
+        return JSON.parse(raw) as ProjectArchiveDump;
+    } catch (e) {
+        console.warn(`[BrandConsistency] ⚠️ Could not parse ${CASINO_CTA_DUMP_ATTACHMENT}: ${(e as Error).message}`);
+        return null;
+    }
+}
+
+class BrandConsistencyReporter implements Reporter {
+    private readonly outputFile: string;
+    /** Dumps of this run only, so the analysis never mixes in stale or half-written data */
+    private dumps: Record<string, ProjectArchiveDump> = {};
+    private projectNames: string[] = [];
+
+    constructor(options: BrandConsistencyReporterOptions = {}) {
+        this.outputFile = path.resolve(process.cwd(), options.outputFile ?? 'casino-cta-consistency.json');
+    }
+
+    printsToStdio(): boolean {
+        return false;
+    }
+
+    onBegin(config: { projects: { name: string }[] }) {
+        this.projectNames = config.projects.map((project) => project.name);
+    }
+
+    onTestEnd(test: TestCase, result: TestResult) {
+        const dump = readDump(result);
+        const projectName = test.parent.project()?.name;
+        if (dump && projectName) this.dumps[projectName] = dump;
+    }
+
+    onEnd(_result: FullResult) {
+        const projects = Object.keys(this.dumps);
+        if (projects.length === 0) return;
+
+        const report = analyzeBrandConsistency(this.dumps);
+        const missingProjects = this.projectNames.filter((name) => !this.dumps[name]);
+        if (missingProjects.length > 0) {
+            console.warn(`[BrandConsistency] ⚠️ No collector dump for: ${missingProjects.join(', ')}. Cross-site gaps only cover ${report.projects.join(', ')}.`);
+        }
+
+        let findings = 0;
+        for (const projectName of report.projects) {
+            const sourceUrl = this.dumps[projectName].archiveUrl;
+            const record = (testId: string, category: string, details: string, targetUrl?: string) => {
+                failureReporter.record({ project: projectName, testId, category, details, sourceUrl, targetUrl });
+                findings++;
+            };
+
+            for (const presence of report.missingBrands.filter((entry) => entry.missingOn.includes(projectName))) {
+                record('BC.missing', 'Brand Missing On Site', `${presence.brand} is listed on ${presence.presentOn.join(', ')} but not here`);
+            }
+
+            for (const { brand, spellings } of report.inconsistentSpellings) {
+                if (!spellings.some((spelling) => spelling.project === projectName)) continue;
+                const variants = spellings.map((spelling) => `"${spelling.value}" (${spelling.project}, ${spelling.attribute})`).join('; ');
+                record('BC.spelling', 'Inconsistent Brand Spelling', `${brand}: ${variants}`);
+            }
+
+            for (const collision of report.duplicatePositions.filter((entry) => entry.project === projectName)) {
+                record('BC.position', 'Duplicate CTA Position', `Position ${collision.position} is used by ${collision.brands.join(', ')}`);
+            }
+
+            for (const mismatch of report.slugMismatches.filter((entry) => entry.project === projectName)) {
+                record('BC.slug', 'CTA Slug/Attribute Mismatch', `Data attribute says ${mismatch.attributeBrand}, href slug points to ${mismatch.slugBrand} (position ${mismatch.position ?? 'n/a'})`, mismatch.href);
+            }
+
+            for (const mismatch of report.attributeMismatches.filter((entry) => entry.project === projectName)) {
+                record('BC.attribute', 'CTA Attribute Brand Mismatch', `data-casino "${mismatch.dataCasino}" and data-casino-name "${mismatch.dataCasinoName}" name different brands`, mismatch.href);
+            }
+        }
+
+        fs.writeFileSync(this.outputFile, JSON.stringify(report, null, 2), 'utf8');
+        console.log(`[BrandConsistency] ${findings} finding(s) across ${report.projects.length} project dump(s). Report: ${this.outputFile}`);
+    }
+}
+
+export default BrandConsistencyReporter;
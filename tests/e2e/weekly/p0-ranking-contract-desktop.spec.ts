@@ -0,0 +1,119 @@
+// tests/e2e/weekly/p0-ranking-contract-desktop.spec.ts
+// Verifies the live offer order (DOM order and data-position) against the ranking contracts in config/rankingContracts.ts.
+
+import { test } from '@playwright/test';
+import { rankingContracts, type RankingContract } from '../config/rankingContracts';
+import { casinoReviewSiteConfigs, type CasinoReviewSiteName } from '../config/sites-casino-reviews';
+import { brandIdFor } from '../helpers/brandConsistency';
+import { createFailureReporter } from '../helpers/failureReporter';
+import { openPageAndClosePopups } from '../helpers/mobileMenuUtils';
+import { collectOfferCards, type OfferCard } from '../helpers/offerCards';
+import '../helpers/inactivityWatchdog';
+
+const TEST_ID = 'RC1';
+const failureReporter = createFailureReporter('p0-ranking-contract-desktop', 'critical');
+
+type SlotCheck = {
+    slot: number;
+    expectedBrand: string;
+    casinoName: string | null;
+    domPosition: number | null;
+    dataPosition: number | null;
+    status: 'ok' | 'missing' | 'deviation';
+};
+
+test.describe('P0 Weekly • Offer Ranking Contract • Desktop', () => {
+    test(`${TEST_ID}: Live offer order matches the ranking contract`, async ({ page }, testInfo) => {
+        const projectName = testInfo.project.name as CasinoReviewSiteName;
+        const contracts = rankingContracts[projectName] ?? [];
+        const siteConfig = casinoReviewSiteConfigs[projectName];
+        test.skip(contracts.length === 0 || !siteConfig, `No ranking contract configured for ${projectName}`);
+
+        const baseURL = testInfo.project.use.baseURL;
+        if (!baseURL) {
+            throw new Error(`Project ${projectName} is missing a baseURL in Playwright config.`);
+        }
+
+        failureReporter.ensureInitialized(projectName);
+        const softFailures: string[] = [];
+        const report: { pageUrl: string; slots: SlotCheck[]; liveOrder: string[] }[] = [];
+
+        for (const [contractIndex, contract] of contracts.entries()) {
+            const stepId = `${TEST_ID}.${contractIndex + 1}`;
+            await test.step(`${stepId} Ranking contract: ${contract.pagePath}`, async () => {
+                const pageUrl = new URL(contract.pagePath, baseURL).toString();
+                const record = (testId: string, category: string, details: string) => {
+                    failureReporter.record({ project: projectName, testId, category, details, sourceUrl: pageUrl });
+                    const message = `[${projectName}] ${category}: ${details} (${pageUrl})`;
+                    console.error(`❌ ${message}`);
+                    softFailures.push(message);
+                };
+
+                const loadError = await openPageAndClosePopups(page, projectName, pageUrl);
+                if (loadError) {
+                    record(`${stepId}.load`, 'Page Load Failure', loadError);
+                    return;
+                }
+
+                const offerCardSelector = contract.offerCardSelector ?? siteConfig.offerCardSelector;
+                const cards = await collectOfferCards(page, offerCardSelector, siteConfig.casinoNameStrategy);
+                if (cards.length === 0) {
+                    record(`${stepId}.cards`, 'Offer Cards Not Found', `No cards match "${offerCardSelector}"`);
+                    return;
+                }
+
+                const slots = checkContract(contract, cards);
+                for (const slot of slots) {
+                    const contractNote = contract.note ? ` [${contract.note}]` : '';
+                    if (slot.status === 'missing') {
+                        record(`${stepId}.missing`, 'Contracted Brand Missing', `Slot ${slot.slot}: ${slot.expectedBrand} is not listed${contractNote}`);
+                    } else if (slot.status === 'deviation') {
+                        record(
+                            `${stepId}.order`,
+                            'Ranking Deviation',
+                            `Slot ${slot.slot}: ${slot.expectedBrand} found at DOM #${slot.domPosition}, data-position ${slot.dataPosition ?? 'n/a'} ` +
+                                `(tolerance ${contract.tolerance ?? 0})${contractNote}`,
+                        );
+                    } else {
+                        console.log(`[${projectName}] ✅ Slot ${slot.slot}: ${slot.casinoName} (DOM #${slot.domPosition}, data-position ${slot.dataPosition ?? 'n/a'})`);
+                    }
+                }
+
+                report.push({ pageUrl, slots, liveOrder: cards.map((card) => card.casinoName) });
+            });
+        }
+
+        testInfo.attachments.push({
+            name: 'ranking-contract-report.json',
+            contentType: 'application/json',
+            body: Buffer.from(JSON.stringify(report, null, 2), 'utf8'),
+        });
+
+        if (softFailures.length > 0) {
+            throw new Error(`Detected ${softFailures.length} ranking contract deviation(s):\n${softFailures.join('\n')}`);
+        }
+    });
+});
+
+/** A contracted brand passes when both its DOM slot and its data-position (when exposed) are within tolerance. */
+function checkContract(contract: RankingContract, cards: OfferCard[]): SlotCheck[] {
+    const tolerance = contract.tolerance ?? 0;
+    return contract.expectedBrands.map((expectedBrand, index) => {
+        const slot = index + 1;
+        const expectedId = brandIdFor(expectedBrand);
+        const card = cards.find((candidate) => brandIdFor(candidate.casinoName) === expectedId);
+        if (!card) {
+            return { slot, expectedBrand, casinoName: null, domPosition: null, dataPosition: null, status: 'missing' };
+        }
+        const withinTolerance = (position: number) => Math.abs(position - slot) <= tolerance;
+        const inPlace = withinTolerance(card.domPosition) && (card.dataPosition === null || withinTolerance(card.dataPosition));
+        return {
+            slot,
+            expectedBrand,
+            casinoName: card.casinoName,
+            domPosition: card.domPosition,
+            dataPosition: card.dataPosition,
+            status: inPlace ? 'ok' : 'deviation',
+        };
+    });
+}
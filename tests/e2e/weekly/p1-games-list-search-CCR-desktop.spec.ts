@@ -1,6 +1,5 @@
 import { test, expect, Page, Locator } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 // Desktop smoke for casino.com.ro slot search/demo flow with CSV logging + audited steps.
 
@@ -16,35 +15,7 @@ const SLOT_TILE_SELECTOR = '.grid > .col-span-1 a[href*="/slot/"]';
 const DEMO_CTA_SELECTOR = 'a.js-slot-trigger.slot_gray_btn';
 const SEARCH_INPUT_SELECTOR = 'form[action*="/sloturi/"] input[name="search"], input[name="search"]';
 
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
-// CSV helpers mirror the pattern used across weekly specs for per-site failure artifacts.
-
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-};
-
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-CCR-desktop_${RUN_TIMESTAMP}.csv`);
-
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-};
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
+const failureReporter = createFailureReporter('p1-games-list-search-CCR-desktop', 'major');
 
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
@@ -54,14 +25,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore url access issues
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
 };
 
 const logStepStatus = (stepName: string, passed: boolean) => {
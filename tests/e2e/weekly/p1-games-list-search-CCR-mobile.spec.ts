@@ -1,6 +1,5 @@
 import { test, expect, devices, Page, Locator } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 // Mobile slot search + demo smoke for casino.com.ro with iPhone 13 emulation and CSV logging.
 
@@ -34,9 +33,7 @@ const RESULTS_CONTAINER_SELECTOR = '.page_search_block + div';
 const SEARCH_INPUT_SELECTOR = 'form[action*="/sloturi/"] input[name="search"], input[name="search"]';
 const SLOT_TILE_SELECTOR = `${RESULTS_CONTAINER_SELECTOR} a[href*="/slot/"]`;
 const DEMO_CTA_SELECTOR = 'a.js-mobile-slot-trigger.slot_gray_btn, a.js-slot-trigger.slot_gray_btn';
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
+const failureReporter = createFailureReporter('p1-games-list-search-CCR-mobile', 'major');
 
 // --- HELPERS ----------------------------------------------------------------
 // Popup dismissal, humanized typing, navigation helpers, loop guards, and CSV utilities.
@@ -322,31 +319,6 @@ const withLoopGuard = async <T>(action: () => Promise<T>, label: string, timeout
     }
 };
 
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-};
-
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-CCR-mobile_${RUN_TIMESTAMP}.csv`);
-
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-};
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
-
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
     let currentUrl = 'about:blank';
@@ -355,14 +327,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
     console.error(`[CSV][${projectName}] Step failure logged for "${stepName}": ${message}`);
 };
 
@@ -2,8 +2,7 @@
 
 import { Page, test, expect } from '@playwright/test';
 
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 // --- PROJECT CONFIGURATION DATA ---
@@ -67,9 +66,7 @@ const isSupportedProject = (name: string): name is SupportedProject => name in C
 
 // Runtime knobs for logging, CSV persistence, and minor timing utilities.
 const VERBOSE_LOGGING = false;
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
+const failureReporter = createFailureReporter('p1-games-list-search-JP-JC-desktop', 'major');
 
 // Helper function for verbose logging
 const verboseLog = (...args: unknown[]) => {
@@ -93,34 +90,6 @@ const normalizeUrl = (input: string) => {
 };
 
 // Helper function to escape a value for CSV output
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-};
-
-// Helper function to get the CSV file path for a project
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-JP-JC-desktop_${RUN_TIMESTAMP}.csv`);
-
-// Helper function to ensure the CSV file is initialized for a project
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-};
-
-// Helper function to append a failure row to the CSV file for a project
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
-
 // Helper function to log a step failure
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
@@ -130,14 +99,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
 };
 
 // Helper function to log a step status
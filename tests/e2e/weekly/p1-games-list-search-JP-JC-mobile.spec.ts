@@ -1,6 +1,5 @@
 import { test, expect, devices, Page, Locator } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 // --- DEVICE & CONTEXT SETUP ------------------------------------------------
@@ -95,9 +94,7 @@ const CONFIG: Record<SupportedProject, ProjectConfig> = {
 const isSupportedProject = (name: string): name is SupportedProject => name in CONFIG;
 
 const VERBOSE_LOGGING = false;
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
+const failureReporter = createFailureReporter('p1-games-list-search-JP-JC-mobile', 'major');
 
 const verboseLog = (...args: unknown[]) => {
     if (VERBOSE_LOGGING) {
@@ -324,31 +321,6 @@ const normalizeUrl = (input: string) => {
 // Escape dynamic URLs before building regex expectations.
 const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-};
-
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-JP-JC-mobile_${RUN_TIMESTAMP}.csv`);
-
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-};
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
-
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
     let currentUrl = 'about:blank';
@@ -357,14 +329,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
 };
 
 const logStepStatus = (stepName: string, passed: boolean) => {
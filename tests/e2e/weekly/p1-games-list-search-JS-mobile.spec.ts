@@ -1,6 +1,5 @@
 import { test, expect, devices, Page, Locator } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 // --- DEVICE SETUP -----------------------------------------------------------
@@ -21,9 +20,7 @@ const BASE_URL = 'https://jocsloturi.ro/sloturi-online-gratis/';
 const SUPPORTED_PROJECTS = new Set(['jocsloturi']);
 const MAX_SLOTS_TO_TEST = 3;
 const VERBOSE_LOGGING = false;
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures');
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-');
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n';
+const failureReporter = createFailureReporter('p1-games-list-search-JS-mobile', 'major');
 
 const LIST_SLOT_CARD_SELECTOR = '.slot-item';
 const LIST_SLOT_IMAGE_SELECTOR = '.slot-image';
@@ -497,31 +494,6 @@ const scrollInitialViewport = async (page: Page) => {
     await page.evaluate(() => window.scrollTo({ top: 350, behavior: 'instant' }));
 };
 
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-};
-
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-JS-mobile_${RUN_TIMESTAMP}.csv`);
-
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-};
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-};
-
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
     let currentUrl = 'about:blank';
@@ -530,14 +502,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
 };
 
 const logStepStatus = (stepName: string, passed: boolean) => {
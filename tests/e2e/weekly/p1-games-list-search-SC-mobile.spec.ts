@@ -1,6 +1,5 @@
 import { devices, expect, Locator, Page, test } from '@playwright/test';
-import * as fs from 'fs';
-import path from 'path';
+import { createFailureReporter } from '../helpers/failureReporter';
 import '../helpers/inactivityWatchdog';
 
 // --- DEVICE SETUP -----------------------------------------------------------
@@ -25,9 +24,7 @@ const SUPPORTED_PROJECTS = new Set(['supercazino']); // Supported projects for t
 const SEARCH_PHRASE = 'Sizzling Hot Deluxe'; // Search phrase for testing.
 const VERBOSE_LOGGING = false; // Enable verbose logging for debugging.
 
-const CSV_FAILURE_DIR = path.join(process.cwd(), 'failures'); // Directory for CSV failure logs.
-const RUN_TIMESTAMP = new Date().toISOString().replace(/[:.]/g, '-'); // Timestamp for CSV file naming.
-const CSV_HEADER = 'Project,Step,Details,URL,Error Message\n'; // CSV header for failure logs.
+const failureReporter = createFailureReporter('p1-games-list-search-SC-mobile', 'major');
 
 const SEARCH_CONTAINER_SELECTOR = '#ajaxsearchlite1'; // Container for the AJAX search widget.
 const SEARCH_INPUT_SELECTOR = `${SEARCH_CONTAINER_SELECTOR} form[role="search"] input.orig[aria-label="Search input"]`; // Search input selector.
@@ -194,31 +191,6 @@ const ensureReturnToListPage = async (page: Page, baseUrl: string) => {
         });
 }; // Ensure return to list page.
 
-const csvEscape = (value: unknown) => {
-    if (value === null || value === undefined) return '""';
-    const str = String(value).replace(/"/g, '""').replace(/(\r\n|\n|\r)/gm, ' ');
-    return `"${str}"`;
-}; // Escape CSV values.
-
-const getCsvFilePath = (projectName: string) =>
-    path.join(CSV_FAILURE_DIR, `${projectName}_p1-games-list-search-SC-mobile_${RUN_TIMESTAMP}.csv`); // Get CSV file path.
-
-const ensureCsvInitialized = (projectName: string) => {
-    if (!fs.existsSync(CSV_FAILURE_DIR)) {
-        fs.mkdirSync(CSV_FAILURE_DIR, { recursive: true });
-    }
-    const csvPath = getCsvFilePath(projectName);
-    if (!fs.existsSync(csvPath)) {
-        fs.writeFileSync(csvPath, CSV_HEADER, { encoding: 'utf8' });
-    }
-    return csvPath;
-}; // Ensure CSV initialization.
-
-const appendFailureRow = (projectName: string, csvRow: string) => {
-    const csvPath = ensureCsvInitialized(projectName);
-    fs.appendFileSync(csvPath, `${csvRow}\n`, { encoding: 'utf8' });
-}; // Append failure row to CSV.
-
 const logStepFailure = (projectName: string, stepName: string, details: string, page: Page, error: unknown) => {
     const message = error instanceof Error ? error.message : String(error);
     let currentUrl = 'about:blank';
@@ -227,14 +199,13 @@ const logStepFailure = (projectName: string, stepName: string, details: string,
     } catch {
         // ignore
     }
-    const csvRow = [
-        csvEscape(projectName),
-        csvEscape(stepName),
-        csvEscape(details),
-        csvEscape(currentUrl),
-        csvEscape(message),
-    ].join(',');
-    appendFailureRow(projectName, csvRow);
+    failureReporter.record({
+        project: projectName,
+        testId: stepName,
+        category: 'Step Failure',
+        details: `${details}: ${message}`,
+        sourceUrl: currentUrl,
+    });
 }; // Log step failure.
 
 const logStepStatus = (stepName: string, passed: boolean) => {
@@ -0,0 +1,123 @@
+// tests/e2e/weekly/p1-offer-terms-desktop.spec.ts
+// Extracts the bonus details of every offer card (headline, wagering, free spins, T&C link, 18+ notice) on the
+// casino review page and the high-traffic pages, exports them to offer-cards-data.json and validates them
+// against the expected offers in config/expectedOffers.ts.
+
+import { test } from '@playwright/test';
+import * as fs from 'fs';
+import path from 'path';
+import { findExpectedOffer, findUnregisteredOfferBrands } from '../config/expectedOffers';
+import { siteConfigs } from '../config/sites';
+import { casinoReviewSiteConfigs, type CasinoReviewSiteName } from '../config/sites-casino-reviews';
+import { createFailureReporter } from '../helpers/failureReporter';
+import { openPageAndClosePopups } from '../helpers/mobileMenuUtils';
+import { collectOfferCards, extractOfferDetails, validateOfferDetails, type OfferDetails } from '../helpers/offerCards';
+import '../helpers/inactivityWatchdog';
+
+const TEST_ID = 'OT1';
+const failureReporter = createFailureReporter('p1-offer-terms-desktop', 'major');
+
+const OFFER_DATA_PATH = path.join(process.cwd(), 'offer-cards-data.json');
+
+type OfferCardRecord = OfferDetails & {
+    pageUrl: string;
+    casinoName: string;
+    domPosition: number;
+    dataPosition: number | null;
+    ctaHref: string | null;
+};
+
+test.describe('P1 Weekly • Offer Card Terms • Desktop', () => {
+    test(`${TEST_ID}: Offer cards show the expected bonus and terms`, async ({ page }, testInfo) => {
+        test.setTimeout(600_000);
+        const projectName = testInfo.project.name as CasinoReviewSiteName;
+        const reviewConfig = casinoReviewSiteConfigs[projectName];
+        test.skip(!reviewConfig, `No offer card config registered for ${projectName}`);
+        const unregisteredBrands = findUnregisteredOfferBrands();
+        if (unregisteredBrands.length > 0) {
+            throw new Error(`config/expectedOffers.ts lists brands missing from config/brands.ts: ${unregisteredBrands.join(', ')}`);
+        }
+
+        const baseURL = testInfo.project.use.baseURL;
+        if (!baseURL) {
+            throw new Error(`Project ${projectName} is missing a baseURL in Playwright config.`);
+        }
+
+        failureReporter.ensureInitialized(projectName);
+        const softFailures: string[] = [];
+        const records: OfferCardRecord[] = [];
+
+        const pageUrls = [...new Set([reviewConfig.pagePath, ...siteConfigs[projectName].highTrafficPaths].map((pagePath) => new URL(pagePath, baseURL).toString()))];
+
+        for (const [pageIndex, pageUrl] of pageUrls.entries()) {
+            const stepId = `${TEST_ID}.${pageIndex + 1}`;
+            await test.step(`${stepId} Offer cards on ${pageUrl}`, async () => {
+                const loadError = await openPageAndClosePopups(page, projectName, pageUrl);
+                if (loadError) {
+                    failureReporter.record({ project: projectName, testId: `${stepId}.load`, category: 'Page Load Failure', details: loadError, sourceUrl: pageUrl });
+                    softFailures.push(`[${projectName}] Page Load Failure: ${pageUrl} (${loadError})`);
+                    return;
+                }
+
+                const cards = await collectOfferCards(page, reviewConfig.offerCardSelector, reviewConfig.casinoNameStrategy);
+                if (cards.length === 0) {
+                    console.log(`[${projectName}] ℹ️ No offer cards on ${pageUrl}`);
+                    return;
+                }
+
+                for (const card of cards) {
+                    const details = await extractOfferDetails(card.locator, reviewConfig.offerDetailSelectors);
+                    records.push({ pageUrl, casinoName: card.casinoName, domPosition: card.domPosition, dataPosition: card.dataPosition, ctaHref: card.ctaHref, ...details });
+
+                    const expected = findExpectedOffer(projectName, card.casinoName);
+                    if (!expected) continue;
+
+                    const issues = validateOfferDetails(details, expected);
+                    if (issues.length === 0) {
+                        console.log(`[${projectName}] ✅ ${card.casinoName} (#${card.domPosition}) offer matches: ${details.bonusHeadline ?? 'no headline'}`);
+                        continue;
+                    }
+                    for (const issue of issues) {
+                        failureReporter.record({
+                            project: projectName,
+                            testId: `${stepId}.offer`,
+                            category: 'Outdated Offer',
+                            details: `${card.casinoName} (#${card.domPosition}): ${issue}`,
+                            sourceUrl: pageUrl,
+                            targetUrl: card.ctaHref ?? undefined,
+                        });
+                    }
+                    const message = `[${projectName}] ${card.casinoName} (#${card.domPosition}) on ${pageUrl}: ${issues.join('; ')}`;
+                    console.error(`❌ ${message}`);
+                    softFailures.push(message);
+                }
+            });
+        }
+
+        persistOfferCards(projectName, records);
+        testInfo.attachments.push({
+            name: `${projectName}-offer-cards.json`,
+            contentType: 'application/json',
+            body: Buffer.from(JSON.stringify(records, null, 2), 'utf8'),
+        });
+        console.log(`[${projectName}] Extracted ${records.length} offer card(s) from ${pageUrls.length} page(s).`);
+
+        if (softFailures.length > 0) {
+            throw new Error(`Detected ${softFailures.length} offer card issue(s):\n${softFailures.join('\n')}`);
+        }
+    });
+});
+
+/** Keeps one entry per project, like the data-casino collector's casino-cta-data.json. */
+function persistOfferCards(projectName: CasinoReviewSiteName, records: OfferCardRecord[]) {
+    let existing: Record<string, { extractedAt: string; cards: OfferCardRecord[] }> = {};
+    if (fs.existsSync(OFFER_DATA_PATH)) {
+        try {
+            existing = JSON.parse(fs.readFileSync(OFFER_DATA_PATH, 'utf8'));
+        } catch (error) {
+            console.warn(`[${projectName}] ⚠️ Failed to parse ${OFFER_DATA_PATH}, rewriting it: ${(error as Error).message}`);
+        }
+    }
+    existing[projectName] = { extractedAt: new Date().toISOString(), cards: records };
+    fs.writeFileSync(OFFER_DATA_PATH, JSON.stringify(existing, null, 2), 'utf8');
+}
@@ -0,0 +1,161 @@
+// tests/e2e/weekly/p1-sitemap-health.spec.ts
+// Sitemap health per project: every (sub-)sitemap must answer 200 with an XML content type, sampled <loc>
+// URLs must be indexable 200 pages that canonicalize to themselves, and no <loc> may point to another domain.
+
+import { test, type APIRequestContext } from '@playwright/test';
+import { siteConfigs, type SiteName } from '../config/sites';
+import { collectSitemapEntries, type SitemapUrlEntry } from '../config/sitemap';
+import { createSeededRandom, resolveSeed, seededShuffle } from '../config/crawler';
+import { createFailureReporter, type AuditFailure } from '../helpers/failureReporter';
+import { findCanonical, findMetaRobots } from '../helpers/htmlMeta';
+import '../helpers/inactivityWatchdog';
+
+const failureReporter = createFailureReporter('p1-sitemap-health', 'major');
+
+/** Number of sitemap URLs checked per project (SITEMAP_HEALTH_SAMPLE overrides). */
+const SAMPLE_SIZE = Number(process.env.SITEMAP_HEALTH_SAMPLE) || 50;
+const REQUEST_TIMEOUT = 30_000;
+const XML_CONTENT_TYPE = /(^|[/+])xml\b/i;
+const GZIP_CONTENT_TYPE = /gzip|octet-stream/i;
+
+const normalizeHost = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+function hostOf(url: string): string | null {
+    try {
+        return normalizeHost(new URL(url).hostname);
+    } catch {
+        return null;
+    }
+}
+
+/** Compares URLs ignoring fragment, trailing slash and a leading www. */
+function sameUrl(a: string, b: string): boolean {
+    try {
+        const normalize = (value: string) => {
+            const url = new URL(value);
+            return `${normalizeHost(url.hostname)}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+        };
+        return normalize(a) === normalize(b);
+    } catch {
+        return a === b;
+    }
+}
+
+/**
+ * Checks one sitemap URL without following redirects: it must be a 200, indexable page
+ * whose canonical (when declared) points back to itself.
+ */
+async function checkSitemapUrl(request: APIRequestContext, entry: SitemapUrlEntry): Promise<{ category: string; details: string; targetUrl?: string } | null> {
+    let response;
+    try {
+        response = await request.get(entry.loc, { maxRedirects: 0, failOnStatusCode: false, timeout: REQUEST_TIMEOUT });
+    } catch (error) {
+        return { category: 'Sitemap URL Unreachable', details: (error as Error).message };
+    }
+
+    const status = response.status();
+    if (status >= 300 && status < 400) {
+        const location = response.headers()['location'] ?? '';
+        return { category: 'Sitemap URL Redirects', details: `HTTP ${status} -> ${location || '(no Location header)'}`, targetUrl: location };
+    }
+    if (status !== 200) {
+        return { category: 'Sitemap URL Error Status', details: `HTTP ${status}` };
+    }
+
+    const robotsHeader = response.headers()['x-robots-tag'] ?? '';
+    if (/noindex/i.test(robotsHeader)) {
+        return { category: 'Sitemap URL Noindex', details: `X-Robots-Tag: ${robotsHeader}` };
+    }
+
+    const html = await response.text();
+    const metaRobots = findMetaRobots(html);
+    if (metaRobots && /noindex/i.test(metaRobots)) {
+        return { category: 'Sitemap URL Noindex', details: `<meta name="robots" content="${metaRobots}">` };
+    }
+
+    const canonical = findCanonical(html);
+    if (canonical) {
+        const canonicalUrl = new URL(canonical, entry.loc).toString();
+        if (!sameUrl(canonicalUrl, entry.loc)) {
+            return { category: 'Sitemap URL Canonical Mismatch', details: `Canonical points to ${canonicalUrl}`, targetUrl: canonicalUrl };
+        }
+    }
+    return null;
+}
+
+test('P1 - Sitemap Health', async ({ request }, testInfo) => {
+    test.setTimeout(60 * 60 * 1000);
+
+    const projectName = testInfo.project.name as SiteName;
+    const baseURL = testInfo.project.use.baseURL;
+    if (!baseURL) { throw new Error(`Base URL not found for project: ${projectName}`); }
+    failureReporter.ensureInitialized(projectName);
+
+    const failures: AuditFailure[] = [];
+    const fail = (testId: string, category: string, details: string, sourceUrl: string, targetUrl?: string) => {
+        failures.push(failureReporter.record({ project: projectName, testId, category, details, sourceUrl, targetUrl }));
+        console.error(`[${projectName}] ❌ ${category}: ${sourceUrl} — ${details}`);
+    };
+
+    // Hostname -> project, to name the site a foreign <loc> belongs to
+    const projectByHost = new Map<string, string>();
+    for (const project of testInfo.config.projects) {
+        const host = project.use.baseURL ? hostOf(project.use.baseURL) : null;
+        if (host) projectByHost.set(host, project.name);
+    }
+    const ownHost = hostOf(baseURL);
+
+    // --- 1. Sitemap files ---
+    const collection = await test.step('Fetch sitemaps', () => collectSitemapEntries(baseURL));
+    console.log(`[${projectName}] Fetched ${collection.fetchedSitemaps.length} sitemap(s) with ${collection.entries.length} URLs.`);
+
+    await test.step('SH1 - Sitemap status and content type', async () => {
+        for (const issue of collection.issues) {
+            fail('SH1.parse', issue.reason, issue.details, issue.sitemapUrl);
+        }
+        for (const document of collection.documents) {
+            if (document.redirected) {
+                fail('SH1.redirect', 'Sitemap Redirects', `Redirected to ${document.finalUrl}`, document.url, document.finalUrl);
+            }
+            // Non-200 statuses are already reported as 'Sitemap Fetch Failure' issues
+            if (!document.ok) continue;
+            const isXml = XML_CONTENT_TYPE.test(document.contentType) || (document.gzipped && GZIP_CONTENT_TYPE.test(document.contentType));
+            if (!isXml) {
+                fail('SH1.content-type', 'Sitemap Content Type', `Content-Type "${document.contentType || '(none)'}" is not XML`, document.url);
+            }
+        }
+    });
+
+    // --- 2. Cross-domain <loc> entries ---
+    await test.step('SH2 - Cross-domain <loc> entries', async () => {
+        for (const entry of collection.entries) {
+            const host = hostOf(entry.loc);
+            if (host === ownHost) continue;
+            const owner = host ? projectByHost.get(host) : undefined;
+            const details = host
+                ? `<loc> on ${host}${owner ? ` (${owner})` : ''} listed in the ${projectName} sitemap`
+                : `Invalid <loc> "${entry.loc}"`;
+            fail('SH2.cross-domain', 'Sitemap Cross-Domain URL', details, entry.sitemapUrl, entry.loc);
+        }
+    });
+
+    // --- 3. Sampled URL checks ---
+    await test.step('SH3 - Sampled URL status, indexability and canonical', async () => {
+        const ownEntries = collection.entries.filter((entry) => hostOf(entry.loc) === ownHost);
+        const seed = resolveSeed(siteConfigs[projectName]);
+        const sample = seededShuffle(ownEntries, createSeededRandom(seed)).slice(0, SAMPLE_SIZE);
+        console.log(`[${projectName}] Checking ${sample.length}/${ownEntries.length} sitemap URLs (seed: ${seed}).`);
+        testInfo.annotations.push({ type: 'Sitemap Sample Seed', description: String(seed) });
+
+        for (const entry of sample) {
+            const problem = await checkSitemapUrl(request, entry);
+            if (problem) fail('SH3.url', problem.category, problem.details, entry.loc, problem.targetUrl);
+        }
+    });
+
+    if (failures.length > 0) {
+        testInfo.attachments.push({ name: `❌ Sitemap Health Failures (${failures.length} total)`, contentType: 'application/json', body: Buffer.from(JSON.stringify(failures, null, 2), 'utf8') });
+        throw new Error(`Sitemap health audit found ${failures.length} issue(s).`);
+    }
+    console.log(`[${projectName}] ✅ Sitemap health OK.`);
+});